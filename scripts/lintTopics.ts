@@ -0,0 +1,41 @@
+/**
+ * Validate every topic file with the same parser the loader uses and report all
+ * problems as `path:line:column - severity: message`.
+ *
+ * Usage: `npm run lint-topics [-- <dir-or-file>...]` (defaults to `src/topics`).
+ * Exits with status 1 when any error is found; warnings alone do not fail the run.
+ */
+import { readdirSync, readFileSync, statSync } from 'node:fs';
+import { join, relative } from 'node:path';
+import { formatDiagnostic, lintTopicSet, parseTopicSource, TOPIC_FILE_PATTERN, type ParsedTopic, type TopicDiagnostic } from '../src/topicParser';
+import { listSceneAnchors } from '../src/sceneAnchors';
+
+function collectFiles(target: string): string[] {
+    if (!statSync(target).isDirectory()) return [target];
+    return readdirSync(target)
+        .filter((name) => TOPIC_FILE_PATTERN.test(name))
+        .sort()
+        .map((name) => join(target, name));
+}
+
+const targets = process.argv.slice(2);
+const files = (targets.length > 0 ? targets : ['src/topics']).flatMap(collectFiles);
+
+const parsed: ParsedTopic[] = [];
+const diagnostics: TopicDiagnostic[] = [];
+
+files.forEach((file) => {
+    const path = relative(process.cwd(), file);
+    const result = parseTopicSource(path, readFileSync(file, 'utf8'));
+    diagnostics.push(...result.diagnostics);
+    if (result.topic) parsed.push(result.topic);
+});
+
+diagnostics.push(...lintTopicSet(parsed, listSceneAnchors()));
+diagnostics.sort((a, b) => a.path.localeCompare(b.path) || a.line - b.line || a.column - b.column);
+diagnostics.forEach((diagnostic) => console.log(formatDiagnostic(diagnostic)));
+
+const errors = diagnostics.filter((diagnostic) => diagnostic.severity === 'error').length;
+const warnings = diagnostics.length - errors;
+console.log(`${files.length} topic file(s) checked: ${errors} error(s), ${warnings} warning(s)`);
+process.exitCode = errors > 0 ? 1 : 0;
@@ -1,5 +1,6 @@
 import * as THREE from 'three';
 import { v4 as uuidv4 } from 'uuid';
+import { InteractionManager } from './InteractionManager';
 
 /**
  * GameObject class represents a 3D object in a Three.js scene with unique ID, name, and interaction capabilities.
@@ -33,7 +34,11 @@ class GameObject extends THREE.Mesh{
         }
         super(geometry, material);
         if (verbose) this.verbose = verbose;
-        if (providedName) this.providedName = providedName;
+        if (providedName) {
+            this.providedName = providedName;
+            // Lets scene.getObjectByName resolve topic anchors such as `Cube_12`.
+            this.name = providedName;
+        }
         this.onClick((event => {
             console.log(`Clicked on ${this.providedName || this.staticName} (ID: ${this._id})`);
             console.log(this.getMetaData());
@@ -55,14 +60,13 @@ class GameObject extends THREE.Mesh{
         return this;
     };
 
-    onClick(callback: (event: MouseEvent) => void) {
-        // Add event listener to the renderer's DOM element
-        window.addEventListener('click', (event) => {
-            const intersects = this._getIntersectsWithMouseRaycast(event);
-            if (intersects.length > 0) {
-                callback(event);
-            }
-        });
+    /**
+     * Registers a callback function to be invoked when the GameObject is the nearest object under a click.
+     * @param callback {(event: MouseEvent) => void} - The function to call on click.
+     * @returns {() => void} - A function that removes the callback.
+     */
+    onClick(callback: (event: MouseEvent) => void): () => void {
+        return InteractionManager.getInstance().on(this, 'click', (event) => callback(event));
     }
 
     /**
@@ -70,78 +74,46 @@ class GameObject extends THREE.Mesh{
      * The callback receives the mouse event and a boolean indicating whether the mouse is currently hovering over the object.
      * @param callback {(event: MouseEvent, isHovering: boolean) => void} - The function to call on hover events.
      * @param verbose {boolean} - If true, logs additional information to the console.
+     * @returns {() => void} - A function that removes the callback.
      */
-    onHover(callback: (event: MouseEvent, isHovering: boolean) => void, verbose?: boolean) {
+    onHover(callback: (event: MouseEvent, isHovering: boolean) => void, verbose?: boolean): () => void {
         if (verbose) console.log('Registering onHover callback');
-        let isHovering = false;
-        window.addEventListener('mousemove', (event) => {
-            const intersects = this._getIntersectsWithMouseRaycast(event);
-            if (intersects.length > 0) {
-                if (!isHovering) {
-                    isHovering = true;
-                    callback(event, isHovering);
-                }
-            } else {
-                if (isHovering) {
-                    isHovering = false;
-                    callback(event, isHovering);
-                }
-            }
-        });
+        const interactions = InteractionManager.getInstance();
+        const offStart = interactions.on(this, 'hoverstart', (event) => callback(event, true));
+        const offEnd = interactions.on(this, 'hoverend', (event) => callback(event, false));
+        return () => {
+            offStart();
+            offEnd();
+        };
     }
 
     /**
      * Registers a callback function to be invoked when the mouse starts hovering over the GameObject.
      * @param callback {() => void} - The function to call when hovering starts.
      * @param verbose {boolean} - If true, logs additional information to the console.
+     * @returns {() => void} - A function that removes the callback.
      */
-    onHoverStart(callback: () => void, verbose?: boolean) {
+    onHoverStart(callback: () => void, verbose?: boolean): () => void {
         if (verbose) console.log('Registering onHoverStart callback');
-        let isHovering = false;
-        window.addEventListener('mousemove', (event) => {
-            const intersects = this._getIntersectsWithMouseRaycast(event);
-            if (intersects.length > 0) {
-                if (!isHovering) {
-                    isHovering = true;
-                    callback();
-                }
-            } else {
-                isHovering = false;
-            }
-        });
+        return InteractionManager.getInstance().on(this, 'hoverstart', () => callback());
     }
 
     /**
      * Registers a callback function to be invoked when the mouse stops hovering over the GameObject.
      * @param callback
+     * @returns {() => void} - A function that removes the callback.
      */
-    onHoverEnd(callback: () => void, verbose?: boolean) {
+    onHoverEnd(callback: () => void, verbose?: boolean): () => void {
         if (verbose) console.log('Registering onHoverEnd callback');
-        let isHovering = false;
-        window.addEventListener('mousemove', (event) => {
-            const intersects = this._getIntersectsWithMouseRaycast(event);
-            if (intersects.length > 0) {
-                isHovering = true;
-            } else {
-                if (isHovering) {
-                    isHovering = false;
-                    callback();
-                }
-            }
-        });
+        return InteractionManager.getInstance().on(this, 'hoverend', () => callback());
     }
 
-    private _getIntersectsWithMouseRaycast(event: MouseEvent) {
-        // Calculate mouse position in normalized device coordinates (-1 to +1) for both components
-        const mouse = new THREE.Vector2();
-        mouse.x = (event.clientX / window.innerWidth) * 2 - 1;
-        mouse.y = -(event.clientY / window.innerHeight) * 2 + 1;
-
-        // Raycaster to find intersected objects
-        const raycaster = new THREE.Raycaster();
-        raycaster.setFromCamera(mouse, (window as any).camera); // Assuming camera is globally accessible
-
-        return raycaster.intersectObject(this);
+    /**
+     * Removes every click and hover callback registered for the GameObject.
+     * Call this before dropping the object from the scene so its listeners don't leak.
+     */
+    removeInteractions() {
+        InteractionManager.getInstance().unregister(this);
     }
 
     /**
@@ -0,0 +1,173 @@
+import * as THREE from 'three';
+
+/**
+ * Pointer events the interaction manager dispatches to registered objects.
+ * `hoverstart`/`hoverend` fire when an object becomes or stops being the nearest hit.
+ */
+export type InteractionEventType = 'click' | 'hoverstart' | 'hoverend';
+
+/**
+ * Callback invoked for an interaction event.
+ * @param event {MouseEvent} the DOM event that triggered the raycast
+ * @param hit {THREE.Intersection | null} the nearest intersection, or null for `hoverend`
+ */
+export type InteractionCallback = (event: MouseEvent, hit: THREE.Intersection | null) => void;
+
+type HandlerMap = Record<InteractionEventType, Set<InteractionCallback>>;
+
+/**
+ * Singleton that owns the pointer listeners for every interactive object in the scene.
+ * Each pointer event is raycast once against all registered objects and only the
+ * nearest hit receives `click`, `hoverstart` and `hoverend` callbacks.
+ *
+ * @example
+ * ```typescript
+ * const interactions = InteractionManager.getInstance();
+ * interactions.setCamera(camera);
+ * const off = interactions.on(mesh, 'click', () => console.log('clicked'));
+ * // later
+ * off(); // or interactions.unregister(mesh) to drop every callback for the mesh
+ * ```
+ * @class InteractionManager
+ */
+export class InteractionManager {
+    private static instance: InteractionManager;
+    private camera: THREE.Camera | null = null;
+    private domElement: HTMLElement | null = null;
+    private raycaster = new THREE.Raycaster();
+    private pointer = new THREE.Vector2();
+    private targets = new Map<THREE.Object3D, HandlerMap>();
+    private hovered: THREE.Object3D | null = null;
+    private listening = false;
+
+    private readonly handleClick = (event: MouseEvent) => {
+        const hit = this.pick(event);
+        if (!hit) return;
+        this.emit(hit.target, 'click', event, hit.intersection);
+    };
+
+    private readonly handlePointerMove = (event: MouseEvent) => {
+        const hit = this.pick(event);
+        const next = hit?.target ?? null;
+        if (next === this.hovered) return;
+
+        const previous = this.hovered;
+        this.hovered = next;
+        if (previous) this.emit(previous, 'hoverend', event, null);
+        if (hit) this.emit(hit.target, 'hoverstart', event, hit.intersection);
+    };
+
+    private constructor() {
+        // Private constructor to prevent direct instantiation
+    }
+
+    public static getInstance(): InteractionManager {
+        if (!InteractionManager.instance) {
+            InteractionManager.instance = new InteractionManager();
+        }
+        return InteractionManager.instance;
+    }
+
+    /**
+     * Set the camera used to build pointer rays.
+     * @param camera {THREE.Camera} the camera rendering the scene
+     */
+    setCamera(camera: THREE.Camera) { this.camera = camera; }
+
+    /**
+     * Restrict interaction to an element (typically `renderer.domElement`): pointer coordinates
+     * are normalized against it and events targeting other elements (e.g. overlay buttons) are ignored.
+     * Without one, coordinates are normalized against the window.
+     * @param element {HTMLElement | null}
+     */
+    setDomElement(element: HTMLElement | null) { this.domElement = element; }
+
+    /**
+     * Register a callback for an interaction event on an object.
+     * @param object {THREE.Object3D} object (or group) to raycast against
+     * @param type {InteractionEventType} event to listen for
+     * @param callback {InteractionCallback} function invoked when the event fires
+     * @returns {() => void} function removing just this callback
+     */
+    on(object: THREE.Object3D, type: InteractionEventType, callback: InteractionCallback): () => void {
+        let handlers = this.targets.get(object);
+        if (!handlers) {
+            handlers = { click: new Set(), hoverstart: new Set(), hoverend: new Set() };
+            this.targets.set(object, handlers);
+        }
+        handlers[type].add(callback);
+        this.listen();
+
+        return () => {
+            const current = this.targets.get(object);
+            if (!current) return;
+            current[type].delete(callback);
+            if (Object.values(current).every((set) => set.size === 0)) this.unregister(object);
+        };
+    }
+
+    /**
+     * Remove every callback registered for an object.
+     * @param object {THREE.Object3D}
+     */
+    unregister(object: THREE.Object3D) {
+        this.targets.delete(object);
+        if (this.hovered === object) this.hovered = null;
+        if (this.targets.size === 0) this.unlisten();
+    }
+
+    /**
+     * Remove every registration and detach the window listeners.
+     */
+    dispose() {
+        this.targets.clear();
+        this.hovered = null;
+        this.unlisten();
+    }
+
+    private listen() {
+        if (this.listening) return;
+        this.listening = true;
+        window.addEventListener('click', this.handleClick);
+        window.addEventListener('pointermove', this.handlePointerMove);
+    }
+
+    private unlisten() {
+        if (!this.listening) return;
+        this.listening = false;
+        window.removeEventListener('click', this.handleClick);
+        window.removeEventListener('pointermove', this.handlePointerMove);
+    }
+
+    private emit(object: THREE.Object3D, type: InteractionEventType, event: MouseEvent, hit: THREE.Intersection | null) {
+        this.targets.get(object)?.[type].forEach((callback) => callback(event, hit));
+    }
+
+    /**
+     * Raycast once against all registered objects and resolve the nearest hit
+     * back to the registered object it belongs to (hits may land on descendants).
+     */
+    private pick(event: MouseEvent): { target: THREE.Object3D; intersection: THREE.Intersection } | null {
+        if (!this.camera || this.targets.size === 0) return null;
+        if (this.domElement && event.target !== this.domElement) return null;
+
+        const rect = this.domElement?.getBoundingClientRect();
+        const left = rect?.left ?? 0;
+        const top = rect?.top ?? 0;
+        const width = rect?.width ?? window.innerWidth;
+        const height = rect?.height ?? window.innerHeight;
+
+        // Calculate mouse position in normalized device coordinates (-1 to +1) for both components
+        this.pointer.x = ((event.clientX - left) / width) * 2 - 1;
+        this.pointer.y = -((event.clientY - top) / height) * 2 + 1;
+        this.raycaster.setFromCamera(this.pointer, this.camera);
+
+        const intersections = this.raycaster.intersectObjects([...this.targets.keys()], true);
+        for (const intersection of intersections) {
+            let candidate: THREE.Object3D | null = intersection.object;
+            while (candidate && !this.targets.has(candidate)) candidate = candidate.parent;
+            if (candidate) return { target: candidate, intersection };
+        }
+        return null;
+    }
+}
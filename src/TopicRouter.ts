@@ -1,28 +1,110 @@
 import * as THREE from 'three';
+import { easings, type EasingName, type EasingFunction } from './easing';
+
+/** How many visited topics `back()` can retrace. */
+const MAX_VISITED = 200;
 
 /**
  * A topic represents a point of interest in the 3D scene.
  * The camera can move to the topic's position and optionally look at a target.
- * The onEnter callback can be used to trigger actions when the topic is reached.
+ * The onEnter callback fires as soon as the router starts moving to the topic, onArrive
+ * once the camera has finished its transition, and onLeave when the router moves to a
+ * different topic.
  * @interface Topic
  * @property {string} id - Unique identifier for the topic.
  * @property {string} title - Title of the topic.
  * @property {THREE.Vector3} position - Position of the topic in 3D space.
  * @property {THREE.Vector3} [lookAt] - Optional point for the camera to look at when at this topic.
- * @property {() => void} [onEnter] - Optional callback triggered when the topic is reached.
+ * @property {string} [notes] - Optional speaker notes markup shown in the presenter view.
+ * @property {THREE.Quaternion} [orientation] - Optional camera orientation at this topic; when set the camera slerps to it instead of looking at `lookAt`.
+ * @property {THREE.Vector3[]} [waypoints] - Optional points the camera path passes through on its way to this topic.
+ * @property {EasingName} [easing] - Optional easing override for transitions into this topic.
+ * @property {number} [durationMs] - Optional fixed duration for transitions into this topic, bypassing distance scaling.
+ * @property {number} [dwellMs] - Optional time autoplay stays on this topic after arriving, overriding the autoplay default.
+ * @property {Record<string, string>} [links] - Optional named branches from this topic to other topic ids, followed with `follow(name)`.
+ * @property {() => void} [onEnter] - Optional callback triggered when the router starts moving to the topic.
+ * @property {() => void} [onArrive] - Optional callback triggered when the camera reaches the topic.
+ * @property {() => void} [onLeave] - Optional callback triggered when the router moves away from the topic.
  */
 export type Topic = {
     id: string;
     title: string;
     position: THREE.Vector3;
     lookAt?: THREE.Vector3;
+    notes?: string;
+    orientation?: THREE.Quaternion;
+    waypoints?: THREE.Vector3[];
+    easing?: EasingName;
+    durationMs?: number;
+    dwellMs?: number;
+    links?: Record<string, string>;
     onEnter?: () => void; // show HUD Text, trigger highlights, etc.
+    onArrive?: () => void;
+    onLeave?: () => void; // undo whatever onEnter changed
 }
 
+/**
+ * Payloads for the events emitted by {@link TopicRouter}, keyed by event name.
+ * - `leave`: the router moved away from `topic`.
+ * - `transitionstart`: the camera started moving from `from` (null on first navigation) to `to`.
+ * - `transitionprogress`: fired every frame of a transition with raw `t` and `eased` progress in [0, 1].
+ * - `arrive`: the camera finished its transition to `topic`.
+ * - `cancel`: the in-flight transition to `topic` was interrupted by another navigation.
+ * - `scrub`: the camera was placed at fractional deck `position` by `scrubTo` (e.g. dragging a timeline).
+ * - `autoplay`: autoplay was started, stopped, paused by user input or resumed after idle.
+ * - `autoplayprogress`: fired every frame while autoplay is on with the dwell `progress` in [0, 1] at topic `index`.
+ */
+export type TopicRouterEvents = {
+    leave: { topic: Topic; index: number };
+    transitionstart: { from: Topic | null; to: Topic; index: number };
+    transitionprogress: { to: Topic; index: number; t: number; eased: number };
+    arrive: { topic: Topic; index: number };
+    cancel: { topic: Topic; index: number };
+    scrub: { position: number };
+    autoplay: { state: AutoplayState };
+    autoplayprogress: { index: number; progress: number; paused: boolean };
+};
+
+export type TopicRouterEventName = keyof TopicRouterEvents;
+
+/**
+ * A branch the current topic offers: its link `name` and the topic it leads to.
+ */
+export type TopicLink = { name: string; topic: Topic; index: number };
+
+/**
+ * How `goTo` behaves while a transition is still in flight.
+ * - `interrupt`: start the new transition immediately from the current pose (default).
+ * - `queue`: finish the current transition, then run queued navigations in order.
+ */
+export type NavigationMode = 'interrupt' | 'queue';
+
+type HistoryMode = 'push' | 'replace' | 'none';
+
+export type AutoplayState = 'off' | 'playing' | 'paused';
+
+/**
+ * Autoplay settings.
+ * @property {number} [dwellMs] Default time on each topic after arriving (default 8000); topics may override it.
+ * @property {number} [resumeAfterMs] Idle time after user input before autoplay resumes (default 15000).
+ * @property {boolean} [loop] Start over at the first topic after the last one (default true); otherwise autoplay stops there.
+ */
+export type AutoplayOptions = {
+    dwellMs?: number;
+    resumeAfterMs?: number;
+    loop?: boolean;
+};
+
+/** A pending navigation; `record` is false for `back()`, which must not re-add what it leaves. */
+type Navigation = { index: number; historyMode: HistoryMode; record: boolean };
+
+type TopicRouterListener<K extends TopicRouterEventName> = (payload: TopicRouterEvents[K]) => void;
+
 /**
  * Class to manage camera movement between predefined topics in a 3D scene.
  * Each topic has a position and an optional lookAt target.
- * The camera smoothly transitions between topics over a set duration.
+ * The camera follows a Catmull-Rom curve through the destination's waypoints (a straight
+ * line when it has none), eased by a named curve over a duration that grows with path length.
  *
  * @example
  * ```typescript
@@ -40,6 +122,8 @@ export type Topic = {
  *   renderer.render(scene, camera);
  *   }
  *   animate(0);
+ *
+ * topicRouter.on('arrive', ({ topic }) => console.log(`Arrived at ${topic.title}`));
  *   ```
  *  @see https://threejs.org/docs/index.html#api/en/cameras/Camera
  *  @class TopicRouter
@@ -49,12 +133,35 @@ export class TopicRouter {
     private index = 0;
     private camera: THREE.Camera;
     private lerpT = 0;
-    private fromPos = new THREE.Vector3();
-    private toPos = new THREE.Vector3();
+    private path = new THREE.CatmullRomCurve3([new THREE.Vector3(), new THREE.Vector3()]);
+    private pathLength = 0;
+    private pathTangent = new THREE.Vector3();
     private fromLook = new THREE.Vector3();
     private toLook = new THREE.Vector3();
+    private look = new THREE.Vector3();
+    private hasLook = false;
+    private velocity = new THREE.Vector3();
+    private lastPosition = new THREE.Vector3();
+    private fromQuat = new THREE.Quaternion();
+    private toQuat = new THREE.Quaternion();
+    private blendOrientation = false;
     private isMoving = false;
     private durationMs = 1200;
+    private msPerUnit = 0;
+    private maxDurationMs = Number.POSITIVE_INFINITY;
+    private easing: EasingFunction = easings.smoothstep;
+    private transitionMs = this.durationMs;
+    private transitionEasing: EasingFunction = this.easing;
+    private hashRouting = false;
+    private activeTopic: Topic | null = null;
+    private navigationMode: NavigationMode = 'interrupt';
+    private queue: Navigation[] = [];
+    /** Ids of the topics navigated away from, most recent last; capped at `MAX_VISITED`. */
+    private visited: string[] = [];
+    private scrubPosition: number | null = null;
+    private autoplay: (Required<AutoplayOptions> & { paused: boolean; elapsedMs: number; idleMs: number }) | null = null;
+    private listeners = new Map<TopicRouterEventName, Set<TopicRouterListener<never>>>();
+    private readonly handlePopState = () => this.syncFromHash();
 
     /**
      * Create a TopicRouter to manage camera movement between topics.
@@ -72,61 +179,476 @@ export class TopicRouter {
      */
     add(topic: Topic) { this.topics.push(topic); }
 
+    /**
+     * Swap the whole topic list in place, e.g. after topic files were hot-reloaded.
+     * The current topic is kept by id (or the nearest index when it was removed) and
+     * re-entered, so its new HUD copy, actions and camera pose take effect. Queued
+     * navigations are dropped because their indices may no longer be valid.
+     * @param topics {Topic[]} the new topics, in order
+     */
+    replaceTopics(topics: Topic[]) {
+        const currentId = this.activeTopic?.id;
+        this.topics = [...topics];
+        this.queue = [];
+        if (currentId === undefined || this.topics.length === 0) return;
+
+        const i = this.indexOf(currentId);
+        this.navigate(i === -1 ? Math.min(this.index, this.topics.length - 1) : i, 'replace');
+    }
+
+    /**
+     * Subscribe to a router event.
+     * @param type {TopicRouterEventName} event to listen for
+     * @param listener callback receiving the event payload
+     * @returns {() => void} function that removes the listener
+     */
+    on<K extends TopicRouterEventName>(type: K, listener: TopicRouterListener<K>): () => void {
+        let set = this.listeners.get(type);
+        if (!set) {
+            set = new Set();
+            this.listeners.set(type, set);
+        }
+        set.add(listener as TopicRouterListener<never>);
+        return () => this.off(type, listener);
+    }
+
+    /**
+     * Remove a listener previously added with {@link on}.
+     * @param type {TopicRouterEventName}
+     * @param listener
+     */
+    off<K extends TopicRouterEventName>(type: K, listener: TopicRouterListener<K>) {
+        this.listeners.get(type)?.delete(listener as TopicRouterListener<never>);
+    }
+
+    private emit<K extends TopicRouterEventName>(type: K, payload: TopicRouterEvents[K]) {
+        this.listeners.get(type)?.forEach((listener) => (listener as TopicRouterListener<K>)(payload));
+    }
+
     /**
      * set a duration for the camera to move between topics
      * @param ms
      */
     setDuration(ms: number) { this.durationMs = ms; }
 
+    /**
+     * Lengthen transitions in proportion to the distance the camera travels.
+     * The total duration becomes `durationMs + pathLength * msPerUnit`, capped at `maxMs`.
+     * @param msPerUnit {number} extra milliseconds per world unit of path length (0 disables scaling)
+     * @param maxMs {number} optional upper bound for the scaled duration
+     */
+    setDistanceScaling(msPerUnit: number, maxMs = Number.POSITIVE_INFINITY) {
+        this.msPerUnit = msPerUnit;
+        this.maxDurationMs = maxMs;
+    }
+
+    /**
+     * Forget the tracked look target so the next transition starts from the camera's actual
+     * orientation. Call after moving the camera outside the router (e.g. overview mode).
+     */
+    resyncCamera() { this.hasLook = false; }
+
+    /**
+     * Choose whether navigating mid-flight interrupts the current transition or queues behind it.
+     * Switching back to `interrupt` drops any pending queued navigations.
+     * @param mode {NavigationMode}
+     */
+    setNavigationMode(mode: NavigationMode) {
+        this.navigationMode = mode;
+        if (mode === 'interrupt') this.queue = [];
+    }
+
+    /**
+     * set the default easing curve used for transitions; topics may override it
+     * @param name {EasingName}
+     */
+    setEasing(name: EasingName) { this.easing = easings[name]; }
+
     /**
      * get the current topic
      */
     get current() { return this.topics[this.index]; }
 
+    /**
+     * get the index of the current topic
+     */
+    get currentIndex() { return this.index; }
+
+    /**
+     * all topics in navigation order (read-only; use `add`/`replaceTopics` to change them)
+     */
+    get topicList(): readonly Topic[] { return this.topics; }
+
+    /**
+     * Find the index of the topic with the given id, or -1 when no topic matches.
+     * @param id {string} topic id as declared in the frontmatter
+     */
+    indexOf(id: string) { return this.topics.findIndex((topic) => topic.id === id); }
+
     /**
      * Move the camera to the topic at index i
      * @param i {number} index of the topic to move to
      */
-    goTo(i: number) {
+    goTo(i: number) { this.navigate(i, 'push'); }
+
+    /**
+     * Branches declared by the current topic (the last queued one in queue mode) whose
+     * target exists, in declaration order.
+     */
+    get links(): TopicLink[] {
+        const links = this.topics[this.targetIndex]?.links ?? {};
+        return Object.entries(links).flatMap(([name, id]) => {
+            const index = this.indexOf(id);
+            return index === -1 ? [] : [{ name, topic: this.topics[index], index }];
+        });
+    }
+
+    /**
+     * Take the named branch of the current topic.
+     * @param linkName {string} key of the topic's `links`
+     * @returns {boolean} false when the topic has no such link or its target does not exist
+     */
+    follow(linkName: string): boolean {
+        const id = this.topics[this.targetIndex]?.links?.[linkName];
+        return id !== undefined && this.goToId(id);
+    }
+
+    /**
+     * whether `back()` has a visited topic to return to
+     */
+    get canGoBack() { return this.visited.some((id) => this.indexOf(id) !== -1); }
+
+    /**
+     * Return to the previously visited topic, retracing the path actually taken
+     * (branches included) rather than stepping by index like `prev()`.
+     * @returns {boolean} false when there is nothing to go back to
+     */
+    back(): boolean {
+        while (this.visited.length > 0) {
+            const i = this.indexOf(this.visited.pop()!);
+            if (i !== -1) {
+                this.navigate(i, 'push', false);
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * Move the camera to the topic with the given id.
+     * @param id {string} topic id as declared in the frontmatter
+     * @returns {boolean} false when no topic has that id
+     */
+    goToId(id: string): boolean {
+        const i = this.indexOf(id);
+        if (i === -1) return false;
+        this.goTo(i);
+        return true;
+    }
+
+    /**
+     * Place the camera part-way between two topics without navigating, e.g. while dragging
+     * a timeline. `position` 2.25 is a quarter of the way along the path from topic 2 to
+     * topic 3 (through topic 3's waypoints). Cancels any transition; call `endScrub` on release.
+     * @param position {number} fractional topic index, clamped to the deck
+     */
+    scrubTo(position: number) {
+        if (this.topics.length === 0) return;
+        const s = THREE.MathUtils.clamp(position, 0, this.topics.length - 1);
+        const i = Math.floor(s);
+        const from = this.topics[i];
+        const to = this.topics[Math.min(i + 1, this.topics.length - 1)];
+        const f = s - i;
+
+        this.isMoving = false;
+        this.queue = [];
+        this.velocity.set(0, 0, 0);
+        this.scrubPosition = s;
+        this.interruptAutoplay();
+
+        const points = from === to ? [from.position, to.position] : [from.position, ...(to.waypoints ?? []), to.position];
+        new THREE.CatmullRomCurve3(points.map((p) => p.clone())).getPointAt(f, this.camera.position);
+
+        if (from.orientation || to.orientation) {
+            this.camera.quaternion.slerpQuaternions(this.orientationOf(from), this.orientationOf(to), f);
+            this.look.set(0,0,-1).applyQuaternion(this.camera.quaternion).add(this.camera.position);
+        } else {
+            this.look.lerpVectors(this.lookTargetOf(from), this.lookTargetOf(to), f);
+            this.camera.lookAt(this.look);
+        }
+        this.hasLook = true;
+        this.emit('scrub', { position: s });
+    }
+
+    /**
+     * Finish scrubbing by travelling to the nearest topic from wherever the camera was left.
+     */
+    endScrub() {
+        if (this.scrubPosition === null) return;
+        const i = Math.round(this.scrubPosition);
+        this.scrubPosition = null;
+        this.navigate(i, 'push');
+    }
+
+    private lookTargetOf(topic: Topic) {
+        return topic.lookAt ?? new THREE.Vector3(0,0,-1);
+    }
+
+    private orientationOf(topic: Topic) {
+        if (topic.orientation) return topic.orientation;
+        return new THREE.Quaternion().setFromRotationMatrix(
+            new THREE.Matrix4().lookAt(topic.position, this.lookTargetOf(topic), this.camera.up),
+        );
+    }
+
+    /**
+     * current autoplay state
+     */
+    get autoplayState(): AutoplayState {
+        if (!this.autoplay) return 'off';
+        return this.autoplay.paused ? 'paused' : 'playing';
+    }
+
+    /**
+     * Advance through the topics on their own (kiosk mode): after arriving, stay for the
+     * topic's `dwellMs` (or the default), then move to the next topic.
+     * @param options {AutoplayOptions}
+     */
+    startAutoplay(options: AutoplayOptions = {}) {
+        this.autoplay = {
+            dwellMs: options.dwellMs ?? 8000,
+            resumeAfterMs: options.resumeAfterMs ?? 15000,
+            loop: options.loop ?? true,
+            paused: false,
+            elapsedMs: 0,
+            idleMs: 0,
+        };
+        this.emit('autoplay', { state: 'playing' });
+    }
+
+    /**
+     * Turn autoplay off.
+     */
+    stopAutoplay() {
+        if (!this.autoplay) return;
+        this.autoplay = null;
+        this.emit('autoplay', { state: 'off' });
+    }
+
+    /**
+     * Report user input: autoplay pauses and resumes once no input was reported for
+     * `resumeAfterMs`. Does nothing while autoplay is off.
+     */
+    interruptAutoplay() {
+        if (!this.autoplay) return;
+        this.autoplay.idleMs = 0;
+        if (this.autoplay.paused) return;
+        this.autoplay.paused = true;
+        this.emit('autoplay', { state: 'paused' });
+    }
+
+    /**
+     * Keep `location.hash` in sync with the current topic (e.g. `#/history`) and follow
+     * browser back/forward navigation through `popstate`. The topic named by the current
+     * hash is restored immediately, falling back to `fallbackIndex` when the hash is empty
+     * or names an unknown topic.
+     * @param fallbackIndex {number} topic index to show when the hash does not resolve (default 0)
+     */
+    enableHashRouting(fallbackIndex = 0) {
+        if (!this.hashRouting) {
+            this.hashRouting = true;
+            window.addEventListener('popstate', this.handlePopState);
+        }
+        const i = this.indexFromHash();
+        this.navigate(i === -1 ? fallbackIndex : i, 'replace');
+    }
+
+    /**
+     * Stop syncing with `location.hash` and remove the `popstate` listener.
+     */
+    disableHashRouting() {
+        if (!this.hashRouting) return;
+        this.hashRouting = false;
+        window.removeEventListener('popstate', this.handlePopState);
+    }
+
+    private syncFromHash() {
+        const i = this.indexFromHash();
+        if (i !== -1 && i !== this.index) this.navigate(i, 'none');
+    }
+
+    private indexFromHash() {
+        const id = decodeURIComponent(window.location.hash.replace(/^#\/?/, ''));
+        return id ? this.indexOf(id) : -1;
+    }
+
+    private writeHash(id: string, mode: 'push' | 'replace') {
+        const hash = `#/${encodeURIComponent(id)}`;
+        if (window.location.hash === hash) return;
+        if (mode === 'push') history.pushState(null, '', hash);
+        else history.replaceState(null, '', hash);
+    }
+
+    /**
+     * Index the next `next()`/`prev()` call steps from: the last queued navigation in
+     * queue mode, otherwise the current topic.
+     */
+    private get targetIndex() {
+        return this.queue.length > 0 ? this.queue[this.queue.length - 1].index : this.index;
+    }
+
+    private navigate(i: number, historyMode: HistoryMode, record = true) {
         if (i < 0 || i >= this.topics.length) return;
+        if (this.isMoving && this.navigationMode === 'queue') {
+            this.queue.push({ index: i, historyMode, record });
+            return;
+        }
+
+        if (this.autoplay) this.autoplay.elapsedMs = 0;
+        const interrupted = this.isMoving;
+        if (interrupted) this.emit('cancel', { topic: this.topics[this.index], index: this.index });
         this.index = i;
         const t = this.topics[i];
+        if (this.hashRouting && historyMode !== 'none') this.writeHash(t.id, historyMode);
+
+        // When interrupting, pass through a lead-in point along the current velocity so the
+        // new curve leaves in the direction the camera is already travelling.
+        const start = this.camera.position.clone();
+        const leadIn = interrupted && this.velocity.lengthSq() > 1e-8
+            ? [start.clone().addScaledVector(this.velocity, this.durationMs * 0.15)]
+            : [];
+        this.path.points = [start, ...leadIn, ...(t.waypoints ?? []).map((p) => p.clone()), t.position.clone()];
+        this.path.updateArcLengths();
+        this.pathLength = this.path.getLength();
+        this.transitionMs = t.durationMs ?? Math.min(this.durationMs + this.pathLength * this.msPerUnit, this.maxDurationMs);
+        // An ease-in would stall a camera that is already moving, so interrupted transitions ease out only.
+        this.transitionEasing = t.easing ? easings[t.easing] : interrupted ? easings.cubicOut : this.easing;
 
-        this.fromPos.copy(this.camera.position);
-        this.toPos.copy(t.position);
+        // Continue from the look target actually being rendered rather than re-deriving one from the camera.
+        if (!this.hasLook) {
+            this.look.set(0,0,-1).applyQuaternion(this.camera.quaternion).add(this.camera.position);
+            this.hasLook = true;
+        }
+        this.fromLook.copy(this.look);
+        this.toLook.copy(this.lookTargetOf(t));
 
-        const currentLook = new THREE.Vector3(0,0,-1).applyQuaternion(this.camera.quaternion).add(this.camera.position);
-        this.fromLook.copy(currentLook);
-        this.toLook.copy(t.lookAt ?? new THREE.Vector3(0,0,-1));
+        // Slerp rotations when either end declares an orientation, which avoids look-at flips
+        // and lets roll ease in or out instead of snapping on the first frame.
+        this.blendOrientation = t.orientation !== undefined || this.activeTopic?.orientation !== undefined;
+        this.fromQuat.copy(this.camera.quaternion);
+        if (this.blendOrientation) this.toQuat.copy(this.orientationOf(t));
 
         this.lerpT = 0;
         this.isMoving = true;
 
+        const previous = this.activeTopic;
+        // Compare ids so re-entering a hot-reloaded copy of the same topic isn't recorded as a visit.
+        if (record && previous && previous.id !== t.id) {
+            this.visited.push(previous.id);
+            if (this.visited.length > MAX_VISITED) this.visited.shift();
+        }
+        if (previous && previous !== t) {
+            previous.onLeave?.();
+            // By id: after `replaceTopics` the outgoing topic is an older copy no longer in the list.
+            this.emit('leave', { topic: previous, index: this.indexOf(previous.id) });
+        }
+        this.activeTopic = t;
+        this.emit('transitionstart', { from: previous, to: t, index: i });
         t.onEnter?.();
     }
 
+    /**
+     * Count idle time while paused and dwell time once the camera has arrived, moving on
+     * when the current topic's dwell is up. Autoplay steps replace the history entry and
+     * aren't recorded as visits, so a kiosk running for hours doesn't grow the back stack
+     * and `back()` retraces only the topics a person chose.
+     */
+    private updateAutoplay(deltaMs: number) {
+        const autoplay = this.autoplay;
+        if (!autoplay || this.topics.length === 0) return;
+
+        if (autoplay.paused) {
+            autoplay.idleMs += deltaMs;
+            if (autoplay.idleMs >= autoplay.resumeAfterMs) {
+                autoplay.paused = false;
+                autoplay.elapsedMs = 0;
+                this.emit('autoplay', { state: 'playing' });
+            }
+        } else if (!this.isMoving) {
+            autoplay.elapsedMs += deltaMs;
+        }
+
+        const dwellMs = this.topics[this.index]?.dwellMs ?? autoplay.dwellMs;
+        const progress = Math.min(autoplay.elapsedMs / dwellMs, 1);
+        this.emit('autoplayprogress', { index: this.index, progress, paused: autoplay.paused });
+        if (autoplay.paused || progress < 1) return;
+
+        const next = this.index + 1 < this.topics.length ? this.index + 1 : autoplay.loop ? 0 : -1;
+        if (next === -1) {
+            this.stopAutoplay();
+            return;
+        }
+        this.navigate(next, 'replace', false);
+    }
+
+    /**
+     * Sample the current camera path at eased progress `u`. Easings such as `spring`
+     * overshoot [0, 1], so values outside are extrapolated along the end tangents.
+     */
+    private samplePath(u: number, out: THREE.Vector3) {
+        if (this.pathLength === 0) return out.copy(this.path.points[this.path.points.length - 1]);
+        if (u >= 0 && u <= 1) return this.path.getPointAt(u, out);
+
+        const edge = u > 1 ? 1 : 0;
+        this.path.getPointAt(edge, out);
+        this.path.getTangentAt(edge, this.pathTangent);
+        return out.addScaledVector(this.pathTangent, (u - edge) * this.pathLength);
+    }
+
     /**
      * Move to the next topic in the list, or stay at the last one if already there.
      */
-    next() { this.goTo(Math.min(this.index + 1, this.topics.length - 1)); }
+    next() { this.goTo(Math.min(this.targetIndex + 1, this.topics.length - 1)); }
 
     /**
      * Move to the previous topic in the list, or stay at the first one if already there.
      */
-    prev() { this.goTo(Math.max(this.index - 1, 0)); }
+    prev() { this.goTo(Math.max(this.targetIndex - 1, 0)); }
 
     /** Call each frame with deltaMs from your loop **/
     update(deltaMs: number) {
+        this.updateAutoplay(deltaMs);
         if (!this.isMoving) return;
-        this.lerpT += deltaMs / this.durationMs;
+        this.lerpT += this.transitionMs > 0 ? deltaMs / this.transitionMs : 1;
         const t = Math.min(1,this.lerpT);
-        const ease = t*t*(3-2*t); // smoothstep
+        const ease = this.transitionEasing(t);
+
+        this.lastPosition.copy(this.camera.position);
+        this.samplePath(ease, this.camera.position);
+        if (deltaMs > 0) this.velocity.subVectors(this.camera.position, this.lastPosition).divideScalar(deltaMs);
+
+        this.look.lerpVectors(this.fromLook, this.toLook, ease);
+        if (this.blendOrientation) {
+            this.camera.quaternion.slerpQuaternions(this.fromQuat, this.toQuat, THREE.MathUtils.clamp(ease, 0, 1));
+            // Keep the tracked look target in front of the camera so a later look-at topic starts from the real framing.
+            const distance = this.look.distanceTo(this.camera.position) || 1;
+            this.look.set(0,0,-1).applyQuaternion(this.camera.quaternion).multiplyScalar(distance).add(this.camera.position);
+        } else {
+            this.camera.lookAt(this.look);
+        }
+
+        const topic = this.topics[this.index];
+        this.emit('transitionprogress', { to: topic, index: this.index, t, eased: ease });
 
-        this.camera.position.lerpVectors(this.fromPos, this.toPos, ease);
-        const target = new THREE.Vector3().lerpVectors(this.fromLook, this.toLook, ease);
-        this.camera.lookAt(target);
+        if (t >= 1) {
+            this.isMoving = false;
+            this.velocity.set(0, 0, 0);
+            topic.onArrive?.();
+            this.emit('arrive', { topic, index: this.index });
 
-        if (t >= 1) this.isMoving = false;
+            const queued = this.queue.shift();
+            if (queued) this.navigate(queued.index, queued.historyMode, queued.record);
+        }
     }
 }
 
@@ -0,0 +1,25 @@
+/**
+ * Easing curves available to camera transitions, selectable by name from code or
+ * topic frontmatter. Each maps linear progress `t` in [0, 1] to eased progress;
+ * `spring` briefly overshoots 1 before settling.
+ */
+export const easings = {
+    linear: (t: number) => t,
+    smoothstep: (t: number) => t * t * (3 - 2 * t),
+    cubicIn: (t: number) => t * t * t,
+    cubicOut: (t: number) => 1 - Math.pow(1 - t, 3),
+    cubicInOut: (t: number) => (t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2),
+    spring: (t: number) => (t >= 1 ? 1 : 1 - Math.cos(t * Math.PI * 4.5) * Math.exp(-t * 6)),
+} satisfies Record<string, (t: number) => number>;
+
+export type EasingName = keyof typeof easings;
+
+export type EasingFunction = (t: number) => number;
+
+/**
+ * Type guard for values read from frontmatter or user input.
+ * @param value candidate easing name
+ */
+export function isEasingName(value: unknown): value is EasingName {
+    return typeof value === 'string' && Object.prototype.hasOwnProperty.call(easings, value);
+}
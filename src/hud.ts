@@ -1,3 +1,13 @@
+/**
+ * A button offered for a topic branch: `label` is shown, `title` (e.g. the target topic's
+ * title) becomes the tooltip.
+ */
+export type BranchButton = {
+    label: string;
+    title?: string;
+    onSelect: () => void;
+};
+
 export function createHUD() {
     const hud = document.createElement('div');
     hud.id = 'hud';
@@ -8,24 +18,48 @@ export function createHUD() {
     hud.style.padding = '12px 16px';
     hud.style.borderRadius = '10px';
     hud.style.backdropFilter = 'blur(8px)';
-    hud.style.background = 'rgba(0,0,0,0.35)';
-    hud.style.color = 'white';
+    hud.style.background = 'var(--theme-hud-background)';
+    hud.style.color = 'var(--theme-text)';
     hud.style.fontFamily = 'system-ui, sans-serif';
     hud.style.lineHeight = '1.35';
     hud.style.fontSize = '14px';
     hud.style.display = 'none';
     document.body.appendChild(hud);
 
+    // Not divs: the global div style would turn each part into its own glass card.
+    const content = document.createElement('section');
+    const branches = document.createElement('nav');
+    branches.className = 'hud-branches';
+    branches.setAttribute('aria-label', 'Branches');
+    hud.append(content, branches);
+
+    const updateVisibility = () => {
+        const isEmpty = content.innerHTML.length === 0 && branches.childElementCount === 0;
+        hud.style.display = isEmpty ? 'none' : 'block';
+        branches.style.display = branches.childElementCount === 0 ? 'none' : '';
+    };
+
     const set = (html: string) => {
-        const content = html.trim();
-        if (content.length === 0) {
-            hud.innerHTML = '';
-            hud.style.display = 'none';
-            return;
-        }
+        content.innerHTML = html.trim().length === 0 ? '' : html;
+        updateVisibility();
+    };
 
-        hud.innerHTML = html;
-        hud.style.display = 'block';
+    /**
+     * Show one button per branch the current topic offers; an empty list removes them.
+     */
+    const setBranches = (buttons: BranchButton[]) => {
+        branches.replaceChildren(...buttons.map(({ label, title, onSelect }) => {
+            const button = document.createElement('button');
+            button.type = 'button';
+            button.className = 'hud-branch';
+            button.textContent = label;
+            if (title) button.title = title;
+            button.addEventListener('click', onSelect);
+            return button;
+        }));
+        updateVisibility();
     };
-    return { set };
+
+    updateVisibility();
+    return { set, setBranches };
 }
@@ -1,18 +1,46 @@
 import * as THREE from 'three';
-import { setupUIControls } from "./uiControls";
+import { setupUIControls, type PanelSection } from "./uiControls";
 import {GameObject} from "./GameObject";
-import { TopicRouter } from './TopicRouter';
+import { InteractionManager } from './InteractionManager';
+import { TopicRouter, type Topic } from './TopicRouter';
 import { createHUD } from "./hud";
-import { loadTopics } from './topicLoader';
+import { loadRemoteTopics, loadTopics, watchTopics, type LoadedTopicBundle, type RenderPagePayload } from './topicLoader';
+import { TopicParseError } from './topicParser';
+import { createTopicErrorOverlay } from './topicErrorOverlay';
 import { createWorldPageManager } from './worldPages';
+import { createSceneActionRegistry } from './sceneActions';
+import { connectPresenter } from './presenter';
+import { createOverview } from './overview';
+import { createMinimap } from './minimap';
+import { createTimeline } from './timeline';
+import { createBindingEditor, createInputBindings } from './inputBindings';
+import { DEFAULT_SETTINGS, createSettingsStore, pickSceneSettings, type ScenePreset, type Settings } from './settingsStore';
+import { createPresetPicker, decodePreset } from './scenePresets';
+import { createSettingsHistory } from './settingsHistory';
+import { THEMES, applyThemeToDocument, createThemeController, createThemePicker, themeSceneSettings, type Theme } from './themes';
+import { NUMBER_OF_CUBES, cubeAnchorId } from './sceneAnchors';
 
 const scene = new THREE.Scene();
 const camera = new THREE.PerspectiveCamera(75, window.innerWidth / window.innerHeight, 0.1, 1000);
 (window as any).camera = camera;
 const renderer = new THREE.WebGLRenderer();
+InteractionManager.getInstance().setCamera(camera);
 
 const hud = createHUD();
 
+// Panel settings and input bindings, saved to localStorage as they change.
+const settings = createSettingsStore();
+
+// `?preset=<code>` (from a preset's Copy Link) adopts a shared scene look.
+const presetParam = new URLSearchParams(window.location.search).get('preset');
+if (presetParam) {
+    try {
+        settings.set(decodePreset(presetParam).settings);
+    } catch (error) {
+        console.warn(error);
+    }
+}
+
 const pageManager = createWorldPageManager(
     scene,
     camera,
@@ -24,40 +52,122 @@ const pageManager = createWorldPageManager(
         anchor.getWorldPosition(out);
         return true;
     },
+    {
+        // `#topic-id` links inside pages navigate the deck instead of the browser.
+        onInternalLink: (topicId) => router.goToId(topicId),
+    },
 );
 
 const router = new TopicRouter(camera);
 router.setDuration(1100);
+router.setDistanceScaling(20, 2600);
+
+const sceneActions = createSceneActionRegistry();
+const topicErrors = createTopicErrorOverlay();
+
+let topics: Topic[] = [];
+let pageIds: string[] = [];
+const showPages = (pages: RenderPagePayload[]) => {
+    const ids = new Set(pages.map((page) => page.id));
+    pageIds.filter((id) => !ids.has(id)).forEach((id) => pageManager.removePage(id));
+    pages.forEach((page) => pageManager.registerPage(page));
+    pageIds = [...ids];
+};
 
-const { topics, pages } = loadTopics(hud);
-
-pages.forEach((page) => pageManager.registerPage(page));
-pageManager.setActivePage(null);
+// Topics arriving after startup (a remote deck, or HMR recovering from a broken file) are swapped in place.
+const useTopics = (bundle: LoadedTopicBundle) => {
+    topicErrors.hide();
+    const firstTopics = topics.length === 0;
+    topics = bundle.topics;
+    showPages(bundle.pages);
+    router.replaceTopics(topics);
+    if (firstTopics && topics.length > 0) router.enableHashRouting(0);
+};
 
-if (topics.length === 0) {
-    console.warn('No topics found in /src/topics');
+const deckUrl = new URLSearchParams(window.location.search).get('deck');
+if (deckUrl) {
+    // `?deck=<manifest URL>` presents a hosted deck instead of the bundled topics; the HUD shows progress and errors.
+    loadRemoteTopics(deckUrl, hud, sceneActions).then(useTopics, (error) => console.error(error));
 } else {
-    topics.forEach((topic) => {
-        const originalOnEnter = topic.onEnter;
-        topic.onEnter = () => {
-            pageManager.setActivePage(topic.id);
-            originalOnEnter?.();
-        };
-        router.add(topic);
+    // A broken topic file shows the error overlay instead of a blank page; saving a fix recovers via HMR.
+    try {
+        const bundle = loadTopics(hud, sceneActions);
+        topics = bundle.topics;
+        showPages(bundle.pages);
+        if (topics.length === 0) console.warn('No topics found in /src/topics');
+    } catch (error) {
+        if (!(error instanceof TopicParseError)) throw error;
+        topicErrors.show(error);
+    }
+    topics.forEach((topic) => router.add(topic));
+
+    // Topic files edited during `npm run dev` are swapped in place, keeping the current topic.
+    watchTopics(hud, sceneActions, {
+        onUpdate: useTopics,
+        onError: (error) => topicErrors.show(error),
     });
-    router.goTo(0);
 }
+pageManager.setActivePage(null);
+router.on('transitionstart', ({ to }) => pageManager.setActivePage(to.id));
+
+// Overview: `o` (or the map button) pulls back to show every topic; `?minimap` (or the Navigation panel) adds a corner map.
+const overview = createOverview(scene, camera, router, { getPagePositions: () => pageManager.getPagePositions() });
+const minimapParam = new URLSearchParams(window.location.search).has('minimap');
+let minimap: ReturnType<typeof createMinimap> | null = null;
+const showMinimap = (show: boolean) => {
+    if (show && !minimap) minimap = createMinimap(camera, router);
+    if (!show && minimap) {
+        minimap.dispose();
+        minimap = null;
+    }
+};
+
+// Timeline: drag to scrub between topics, type a topic number (e.g. 1 then 2) or `/` to search titles.
+const timeline = createTimeline(router);
 
-// Keyboard: ArrowLeft/ArrowRight, 1-5 to jump
-window.addEventListener('keydown', (e) => {
-    if (e.key === 'ArrowRight') router.next();
-    if (e.key === 'ArrowLeft') router.prev();
-    const n = Number(e.key);
-    if (!Number.isNaN(n) && n >= 1 && n <= topics.length) router.goTo(n - 1);
+// Presenter mode: `?presenter` opens the speaker notes window, kept in sync over BroadcastChannel.
+const presenter = connectPresenter(router);
+if (new URLSearchParams(window.location.search).has('presenter')) presenter.open();
+
+// Autoplay (kiosk): `?autoplay` or `?autoplay=<default dwell ms>`; any user input pauses it until idle.
+const autoplayParam = new URLSearchParams(window.location.search).get('autoplay');
+const toggleAutoplay = () => {
+    if (router.autoplayState !== 'off') {
+        router.stopAutoplay();
+        return;
+    }
+    const dwellMs = Number(autoplayParam);
+    router.startAutoplay(dwellMs > 0 ? { dwellMs } : {});
+};
+['keydown', 'pointerdown', 'wheel', 'touchstart'].forEach((type) => {
+    window.addEventListener(type, () => router.interruptAutoplay(), { passive: true });
 });
 
 renderer.setSize(window.innerWidth, window.innerHeight);
 document.body.appendChild(renderer.domElement);
+InteractionManager.getInstance().setDomElement(renderer.domElement);
+
+// Keyboard, swipe and gamepad input mapped to named actions; bindings are editable in the settings panel.
+const input = createInputBindings(
+    {
+        next: () => router.next(),
+        prev: () => router.prev(),
+        back: () => router.back(),
+        goto: (digit) => { if (digit) timeline.typeDigit(digit); },
+        search: () => timeline.openSearch(),
+        overview: () => overview.toggle(),
+        'exit-overview': () => overview.exit(),
+        autoplay: () => toggleAutoplay(),
+        'toggle-panel': () => controls.togglePanel(),
+        'toggle-dark': () => handleThemeToggle(),
+    },
+    {
+        settings,
+        swipeTarget: renderer.domElement,
+        // Gamepad buttons don't go through the window listeners above.
+        onTrigger: () => router.interruptAutoplay(),
+    },
+);
 
 // Create gradient canvas
 const canvas = document.createElement('canvas');
@@ -81,7 +191,6 @@ const material = new THREE.MeshStandardMaterial({
     roughness: 0.2,
 });
 
-const NUMBER_OF_CUBES = 30;
 const NUMBER_OF_LIGHTS = Math.ceil(NUMBER_OF_CUBES / 10);
 
 const lights: THREE.DirectionalLight[] = [];
@@ -113,7 +222,7 @@ scene.fog = new THREE.Fog(0x000000, 20, 80); // Black fog, starts at 20 units, f
 
 const gap = 0.5;
 for (let i = 0; i < NUMBER_OF_CUBES; i++) {
-    const gameObject = new GameObject(geometry, material, `Cube_${i}`, false);
+    const gameObject = new GameObject(geometry, material, cubeAnchorId(i), false);
     gameObject.setPosition(0, (i * (cubeHeight + gap)) - yOffset, -10);
     gameObject.setRotation(0, (i / NUMBER_OF_CUBES) * Math.PI * 2, 0);
     group.add(gameObject.getMesh());
@@ -144,8 +253,12 @@ function animate(): void {
         obj.getMesh().rotation.y += rotationSpeed;
     })
 
-    router.update(deltaMs);
+    // The overview owns the camera while shown or flying out/back; the router resumes afterwards.
+    if (!overview.isActive) router.update(deltaMs);
+    overview.update(deltaMs);
     pageManager.update();
+    minimap?.update();
+    input.update();
     renderer.render(scene, camera);
 }
 
@@ -172,65 +285,36 @@ class GameLoop {
     }
 }
 
-// Define color schemes for dark and light modes
-
-const darkColors = {
-    gradientStart: '#010003',
-    gradientEnd: '#000000',
-    directionalLight: 0x0d00ff,
-    ambientLight: 0xffffff,
-    fog: 0x000000,
-    material: 0x000000
-};
+// Built-in presets offered in the settings panel next to the user's saved ones.
+const builtInPresets: ScenePreset[] = [
+    { name: 'Midnight', settings: { ...pickSceneSettings(DEFAULT_SETTINGS), theme: 'dark' } },
+    { name: 'Daylight', settings: { ...pickSceneSettings(DEFAULT_SETTINGS), theme: 'light', ...themeSceneSettings(THEMES.light) } },
+    {
+        name: 'Neon',
+        settings: { theme: 'dark', speed: 150, startColor: '#12002b', endColor: '#000000', lightColor: '#ff00cc', lightIntensity: 2, materialColor: '#111111', metalness: 1, roughness: 0.1 },
+    },
+    {
+        name: 'Sunset',
+        settings: { theme: 'dusk', speed: 30, ...themeSceneSettings(THEMES.dusk), lightIntensity: 1.5, metalness: 0.6, roughness: 0.35 },
+    },
+];
 
-const lightColors = {
-    gradientStart: '#e0e7ff', // light blue
-    gradientEnd: '#ffffff',   // white
-    directionalLight: 0x87cefa, // sky blue
-    ambientLight: 0xffffff,
-    fog: 0xffffff,
-    material: 0xffffff
+/**
+ * Apply the parts of a theme that aren't scene settings: ambient light and fog, the
+ * `--theme-*` properties the HUD and panel are styled with, and the world page palette.
+ */
+const applyTheme = (theme: Theme) => {
+    ambientLight.color.set(theme.scene.ambientLight);
+    scene.fog?.color.set(theme.scene.fog);
+    applyThemeToDocument(theme);
+    pageManager.setPalette(theme.page);
 };
 
-let darkMode = true;
-
-function applyColors() {
-    const colors = darkMode ? darkColors : lightColors;
-
-    // Update gradient
-    const gradient = ctx.createLinearGradient(0, 0, 0, canvas.height);
-    gradient.addColorStop(0, colors.gradientStart);
-    gradient.addColorStop(1, colors.gradientEnd);
-    ctx.fillStyle = gradient;
-    ctx.fillRect(0, 0, canvas.width, canvas.height);
-    bgTexture.needsUpdate = true;
-
-    // Update lights
-    ambientLight.color.setHex(colors.ambientLight);
-
-    lights.forEach(light => light.color.setHex(colors.directionalLight));
-
-    // Update fog
-    scene.fog?.color.setHex(colors.fog);
+const themes = createThemeController(settings, applyTheme);
 
-    // Update material
-    material.color.setHex(colors.material);
-
-    // Update all button text colors for dark background
-    const buttons= document.getElementsByTagName('button');
-    for (let i = 0; i < buttons.length; i++) {
-        buttons[i].style.color = darkMode ? 'white' : 'black';
-    }
-
-    const labels = document.getElementsByTagName('label');
-    for (let i = 0; i < labels.length; i++) {
-        labels[i].style.color = darkMode ? 'white' : 'black';
-    }
-}
-
-const handleDarkModeToggle = () => {
-    darkMode = !darkMode;
-    applyColors();
+// Switches between the dark and light themes; each brings its own scene colours.
+const handleThemeToggle = () => {
+    themes.select(themes.theme.colorScheme === 'dark' ? 'light' : 'dark');
 }
 
 const handleSpeedChange = (value: number) => {
@@ -263,20 +347,172 @@ const handleCubeControls = (materialColor: string, metalness: number, roughness:
     material.roughness = roughness;
 }
 
-setupUIControls(
-    handleDarkModeToggle,
-    handleSpeedChange,
-    handleWorldGradient,
-    handleDirectionalLightControls,
-    handleCubeControls,
+/**
+ * Apply settings to the scene; with `previous`, only what changed. The theme itself is
+ * applied by the theme controller.
+ */
+const applySettings = (next: Readonly<Settings>, previous?: Readonly<Settings>) => {
+    const changed = (...keys: Array<keyof Settings>) => !previous || keys.some((key) => next[key] !== previous[key]);
+    if (changed('speed')) handleSpeedChange(next.speed);
+    if (changed('startColor', 'endColor')) handleWorldGradient(next.startColor, next.endColor);
+    if (changed('lightColor', 'lightIntensity')) handleDirectionalLightControls(next.lightColor, next.lightIntensity);
+    if (changed('materialColor', 'metalness', 'roughness')) handleCubeControls(next.materialColor, next.metalness, next.roughness);
+};
+settings.subscribe(applySettings);
+
+const TRANSITION_MS: Record<string, number> = { slow: 1800, normal: 1100, fast: 600 };
+
+// Settings panel. Scene settings are applied by `applySettings`; feature settings by their `onChange`.
+const panelSections: PanelSection[] = [
     {
-        navControls: [
-            { icon: 'chevron_left', aria: 'Previous topic', handler: () => router.prev() },
-            { icon: 'chevron_right', aria: 'Next topic', handler: () => router.next() },
+        title: 'Gradient',
+        controls: [
+            { key: 'startColor', type: 'color', label: 'Top', default: DEFAULT_SETTINGS.startColor },
+            { key: 'endColor', type: 'color', label: 'Bottom', default: DEFAULT_SETTINGS.endColor },
         ],
     },
-);
+    {
+        title: 'Motion',
+        controls: [{ key: 'speed', type: 'range', label: 'Speed', min: 0, max: 2000, default: DEFAULT_SETTINGS.speed }],
+    },
+    {
+        title: 'Lighting',
+        controls: [
+            { key: 'lightColor', type: 'color', label: 'Color', default: DEFAULT_SETTINGS.lightColor },
+            { key: 'lightIntensity', type: 'range', label: 'Intensity', min: 0, max: 2, step: 0.01, default: DEFAULT_SETTINGS.lightIntensity },
+        ],
+    },
+    {
+        title: 'Material',
+        controls: [
+            { key: 'materialColor', type: 'color', label: 'Color', default: DEFAULT_SETTINGS.materialColor },
+            { key: 'metalness', type: 'range', label: 'Metalness', min: 0, max: 1, step: 0.01, default: DEFAULT_SETTINGS.metalness },
+            { key: 'roughness', type: 'range', label: 'Roughness', min: 0, max: 1, step: 0.001, default: DEFAULT_SETTINGS.roughness },
+        ],
+    },
+    {
+        title: 'Navigation',
+        collapsed: true,
+        controls: [
+            { key: 'minimap', type: 'toggle', label: 'Minimap', default: false, onChange: (show) => showMinimap(show || minimapParam) },
+            {
+                key: 'transitionSpeed',
+                type: 'select',
+                label: 'Transitions',
+                default: 'normal',
+                options: [
+                    { value: 'slow', label: 'Slow' },
+                    { value: 'normal', label: 'Normal' },
+                    { value: 'fast', label: 'Fast' },
+                ],
+                onChange: (speed) => router.setDuration(TRANSITION_MS[speed] ?? TRANSITION_MS.normal),
+            },
+        ],
+    },
+];
+
+// Undo/redo for scene changes made from the panel; presets saved and bindings edited aren't steps.
+const settingsHistory = createSettingsHistory(settings);
+
+const controls = setupUIControls({
+    settings,
+    history: settingsHistory,
+    sections: panelSections,
+    customSections: [
+        { title: 'Theme', content: createThemePicker(settings, themes, settingsHistory) },
+        { title: 'Presets', content: createPresetPicker(settings, builtInPresets, settingsHistory) },
+        { title: 'Input Bindings', content: createBindingEditor(input), collapsed: true },
+    ],
+    actions: [{ label: 'Toggle Dark/Light Mode', handler: () => settingsHistory.record(handleThemeToggle), id: 'toggle-button' }],
+    navControls: [
+        { icon: 'undo', aria: 'Back along the visited path', handler: () => router.back() },
+        { icon: 'chevron_left', aria: 'Previous topic', handler: () => router.prev() },
+        { icon: 'chevron_right', aria: 'Next topic', handler: () => router.next() },
+        { icon: 'map', aria: 'Toggle topic overview', handler: () => overview.toggle() },
+        { icon: 'search', aria: 'Jump to topic', handler: () => timeline.openSearch() },
+        { icon: 'slideshow', aria: 'Toggle autoplay', handler: () => toggleAutoplay() },
+        { icon: 'co_present', aria: 'Open presenter view', handler: () => presenter.open() },
+    ],
+});
+
+// Branches declared in the current topic's `links`, offered in the HUD and the nav bar.
+router.on('transitionstart', () => {
+    const branches = router.links.map(({ name, topic }) => ({
+        label: name,
+        title: topic.title,
+        onSelect: () => router.follow(name),
+    }));
+    hud.setBranches(branches);
+    controls.setBranches(branches);
+});
+
+router.on('autoplayprogress', ({ progress, paused }) => controls.setAutoplayProgress(progress, paused));
+router.on('autoplay', ({ state }) => {
+    if (state === 'off') controls.setAutoplayProgress(null);
+});
+
+// Scene actions declared in topic frontmatter; each handler returns how to undo itself.
+// Undoing re-applies the current settings, which may have changed while the topic was shown.
+sceneActions.register('speed', ({ value }) => {
+    handleSpeedChange(value);
+    return () => handleSpeedChange(settings.get().speed);
+});
+
+// Shows a theme with its scene colours for the topic's duration without changing settings.
+sceneActions.register('theme', ({ mode }) => {
+    const theme = THEMES[mode];
+    const colors = themeSceneSettings(theme);
+    applyTheme(theme);
+    handleWorldGradient(colors.startColor, colors.endColor);
+    handleDirectionalLightControls(colors.lightColor, settings.get().lightIntensity);
+    handleCubeControls(colors.materialColor, settings.get().metalness, settings.get().roughness);
+    return () => {
+        const current = settings.get();
+        applyTheme(themes.theme);
+        handleWorldGradient(current.startColor, current.endColor);
+        handleDirectionalLightControls(current.lightColor, current.lightIntensity);
+        handleCubeControls(current.materialColor, current.metalness, current.roughness);
+    };
+});
+
+sceneActions.register('gradient', ({ start, end }) => {
+    handleWorldGradient(start, end);
+    return () => handleWorldGradient(settings.get().startColor, settings.get().endColor);
+});
+
+sceneActions.register('light', ({ color, intensity }) => {
+    handleDirectionalLightControls(color, intensity);
+    return () => handleDirectionalLightControls(settings.get().lightColor, settings.get().lightIntensity);
+});
+
+sceneActions.register('material', ({ color, metalness, roughness }) => {
+    handleCubeControls(color, metalness, roughness);
+    return () => {
+        const current = settings.get();
+        handleCubeControls(current.materialColor, current.metalness, current.roughness);
+    };
+});
+
+sceneActions.register('highlight', ({ target, color }) => {
+    const gameObject = gameObjects.find((obj) => obj.providedName === target);
+    if (!gameObject) {
+        console.warn(`Cannot highlight unknown object "${target}"`);
+        return;
+    }
+    // Cubes share one material, so highlight with a temporary clone.
+    const original = gameObject.material;
+    const highlighted = material.clone();
+    highlighted.emissive = new THREE.Color(color ?? '#ffcc00');
+    highlighted.emissiveIntensity = 1;
+    gameObject.material = highlighted;
+    return () => {
+        gameObject.material = original;
+        highlighted.dispose();
+    };
+});
 
-applyColors();
+applySettings(settings.get());
+if (topics.length > 0) router.enableHashRouting(0);
+if (autoplayParam !== null) toggleAutoplay();
 const gameLoop = GameLoop.getInstance();
 gameLoop.start();
@@ -0,0 +1,350 @@
+import type { SettingsStore } from './settingsStore';
+
+/**
+ * Named actions the deck can be driven with. `goto` receives the pressed digit.
+ */
+export const INPUT_ACTIONS = {
+    next: 'Next topic',
+    prev: 'Previous topic',
+    back: 'Back',
+    goto: 'Jump to number',
+    search: 'Search topics',
+    overview: 'Overview',
+    'exit-overview': 'Leave overview',
+    autoplay: 'Autoplay',
+    'toggle-panel': 'Settings panel',
+    'toggle-dark': 'Dark/light mode',
+} as const;
+
+export type InputAction = keyof typeof INPUT_ACTIONS;
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * Inputs that trigger one action.
+ * @property {string[]} keys Key tokens: a `KeyboardEvent.key` (`o`, `PageDown`, `Space`), named keys
+ *   optionally prefixed with modifiers (`Ctrl+ArrowRight`), or `Digit` for any of 0-9.
+ * @property {SwipeDirection[]} swipes Direction the finger moves on the scene.
+ * @property {number[]} buttons Gamepad button indices in the standard mapping (15 = d-pad right).
+ */
+export type InputBinding = {
+    keys: string[];
+    swipes: SwipeDirection[];
+    buttons: number[];
+};
+
+export type BindingTable = Record<InputAction, InputBinding>;
+
+export type InputHandlers = Partial<Record<InputAction, (argument?: string) => void>>;
+
+/**
+ * @property {SettingsStore} settings Store holding the binding table (`inputBindings`), persisted with the other settings.
+ * @property {HTMLElement} [swipeTarget] Element swipes are read from, usually the renderer canvas.
+ * @property {(action: InputAction) => void} [onTrigger] Called before any bound action runs, e.g. to pause autoplay.
+ */
+export type InputBindingOptions = {
+    settings: SettingsStore;
+    swipeTarget?: HTMLElement;
+    onTrigger?: (action: InputAction) => void;
+};
+
+/** Clickers send PageUp/PageDown; the d-pad and shoulder buttons page on a gamepad. */
+export const DEFAULT_BINDINGS: BindingTable = {
+    next: { keys: ['ArrowRight', 'PageDown'], swipes: ['left'], buttons: [15, 5] },
+    prev: { keys: ['ArrowLeft', 'PageUp'], swipes: ['right'], buttons: [14, 4] },
+    back: { keys: ['Backspace'], swipes: [], buttons: [1] },
+    goto: { keys: ['Digit'], swipes: [], buttons: [] },
+    search: { keys: ['/'], swipes: [], buttons: [] },
+    overview: { keys: ['o'], swipes: ['up'], buttons: [3] },
+    'exit-overview': { keys: ['Escape'], swipes: ['down'], buttons: [] },
+    autoplay: { keys: ['p'], swipes: [], buttons: [9] },
+    'toggle-panel': { keys: ['s'], swipes: [], buttons: [8] },
+    'toggle-dark': { keys: ['d'], swipes: [], buttons: [] },
+};
+
+const SWIPE_MIN_DISTANCE = 60;
+const SWIPE_MAX_MS = 600;
+
+const SWIPE_LABELS: Record<SwipeDirection, string> = { left: 'Swipe ←', right: 'Swipe →', up: 'Swipe ↑', down: 'Swipe ↓' };
+
+const KEY_LABELS: Record<string, string> = {
+    ArrowRight: '→',
+    ArrowLeft: '←',
+    ArrowUp: '↑',
+    ArrowDown: '↓',
+    Digit: '0–9',
+    Escape: 'Esc',
+};
+
+/**
+ * True when keys pressed in `target` belong to a form field (the timeline search box,
+ * settings sliders and colour pickers) rather than to the deck.
+ */
+export function isEditableTarget(target: EventTarget | null): boolean {
+    return target instanceof HTMLInputElement
+        || target instanceof HTMLTextAreaElement
+        || target instanceof HTMLSelectElement
+        || (target instanceof HTMLElement && target.isContentEditable);
+}
+
+/**
+ * Token for a key press as used in `InputBinding.keys`. Modifiers are only spelled out
+ * for named keys (`Shift+ArrowRight`); for printable keys Shift is already in `key`.
+ */
+export function keyToken(event: KeyboardEvent): string {
+    const key = event.key === ' ' ? 'Space' : event.key;
+    const modifiers = [
+        event.ctrlKey && 'Ctrl',
+        event.altKey && 'Alt',
+        event.shiftKey && key.length > 1 && 'Shift',
+        event.metaKey && 'Meta',
+    ].filter(Boolean);
+    return [...modifiers, key].join('+');
+}
+
+const validList = <T>(items: unknown, isValid: (item: unknown) => item is T, fallback: T[]): T[] =>
+    (Array.isArray(items) ? items.filter(isValid) : [...fallback]);
+
+const isSwipeDirection = (value: unknown): value is SwipeDirection => typeof value === 'string' && value in SWIPE_LABELS;
+
+/**
+ * Validate a stored binding table. Actions missing from it fall back to
+ * `DEFAULT_BINDINGS`, so new actions work without clearing saved settings.
+ * @returns the cleaned table, or undefined when `value` isn't a table at all
+ */
+export function normalizeBindings(value: unknown): BindingTable | undefined {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) return undefined;
+    const stored = value as Partial<Record<string, Partial<Record<keyof InputBinding, unknown>>>>;
+    return Object.fromEntries((Object.keys(DEFAULT_BINDINGS) as InputAction[]).map((action) => {
+        const fallback = DEFAULT_BINDINGS[action];
+        const binding = stored[action];
+        return [action, {
+            keys: validList(binding?.keys, (key): key is string => typeof key === 'string', fallback.keys),
+            swipes: validList(binding?.swipes, isSwipeDirection, fallback.swipes),
+            buttons: validList(binding?.buttons, (button): button is number => Number.isInteger(button), fallback.buttons),
+        }];
+    })) as BindingTable;
+}
+
+/**
+ * Dispatch keyboard, swipe and gamepad input to named actions through the editable
+ * binding table kept in the settings store. Keys typed into form fields are ignored. Call `update` every frame to
+ * poll gamepads.
+ *
+ * @example
+ * ```ts
+ * const input = createInputBindings({ next: () => router.next(), goto: (digit) => jump(digit) },
+ *     { settings, swipeTarget: renderer.domElement });
+ * input.setBinding('next', { ...input.bindings.next, keys: ['ArrowRight', 'Space'] });
+ * ```
+ */
+export function createInputBindings(handlers: InputHandlers, options: InputBindingOptions) {
+    const { settings } = options;
+    let captureButton: ((button: number) => void) | null = null;
+
+    const trigger = (action: InputAction, argument?: string) => {
+        const handler = handlers[action];
+        if (!handler) return;
+        options.onTrigger?.(action);
+        handler(argument);
+    };
+
+    const actionsFor = (match: (binding: InputBinding) => boolean) =>
+        (Object.keys(INPUT_ACTIONS) as InputAction[]).filter((action) => match(settings.get().inputBindings[action]));
+
+    const handleKeydown = (event: KeyboardEvent) => {
+        if (isEditableTarget(event.target)) return;
+        const token = keyToken(event);
+        const isDigit = /^\d$/.test(token);
+        const actions = actionsFor(({ keys }) => keys.includes(token) || (isDigit && keys.includes('Digit')));
+        if (actions.length === 0) return;
+        event.preventDefault();
+        actions.forEach((action) => trigger(action, event.key));
+    };
+    window.addEventListener('keydown', handleKeydown);
+
+    // Swipes: a quick one-finger (or pen) stroke on the scene, classified by its dominant axis.
+    let stroke: { id: number; x: number; y: number; time: number } | null = null;
+    const handlePointerDown = (event: PointerEvent) => {
+        if (event.pointerType === 'mouse') return;
+        stroke = { id: event.pointerId, x: event.clientX, y: event.clientY, time: event.timeStamp };
+    };
+    const handlePointerUp = (event: PointerEvent) => {
+        if (!stroke || stroke.id !== event.pointerId) return;
+        const dx = event.clientX - stroke.x;
+        const dy = event.clientY - stroke.y;
+        const elapsed = event.timeStamp - stroke.time;
+        stroke = null;
+        if (elapsed > SWIPE_MAX_MS || Math.max(Math.abs(dx), Math.abs(dy)) < SWIPE_MIN_DISTANCE) return;
+        const direction: SwipeDirection = Math.abs(dx) > Math.abs(dy)
+            ? (dx < 0 ? 'left' : 'right')
+            : (dy < 0 ? 'up' : 'down');
+        actionsFor(({ swipes }) => swipes.includes(direction)).forEach((action) => trigger(action));
+    };
+    const handlePointerCancel = () => {
+        stroke = null;
+    };
+    const swipeTarget = options.swipeTarget;
+    if (swipeTarget) {
+        // Without this the browser claims the stroke for panning and cancels the pointer.
+        swipeTarget.style.touchAction = 'none';
+        swipeTarget.addEventListener('pointerdown', handlePointerDown);
+        swipeTarget.addEventListener('pointerup', handlePointerUp);
+        swipeTarget.addEventListener('pointercancel', handlePointerCancel);
+    }
+
+    // Gamepads are polled; an action fires on the frame a bound button goes down.
+    const pressed = new Map<number, boolean[]>();
+    const update = () => {
+        if (typeof navigator.getGamepads !== 'function') return;
+        for (const pad of navigator.getGamepads()) {
+            if (!pad) continue;
+            const before = pressed.get(pad.index) ?? [];
+            const now = pad.buttons.map((button) => button.pressed);
+            now.forEach((isDown, button) => {
+                if (!isDown || before[button]) return;
+                if (captureButton) {
+                    captureButton(button);
+                    return;
+                }
+                actionsFor(({ buttons }) => buttons.includes(button)).forEach((action) => trigger(action));
+            });
+            pressed.set(pad.index, now);
+        }
+    };
+
+    const setBinding = (action: InputAction, binding: InputBinding) => {
+        settings.set({ inputBindings: { ...settings.get().inputBindings, [action]: binding } });
+    };
+
+    const reset = () => {
+        settings.set({ inputBindings: DEFAULT_BINDINGS });
+    };
+
+    /** Route the next gamepad button press to `onButton` instead of its actions; null stops. */
+    const captureGamepad = (onButton: ((button: number) => void) | null) => {
+        captureButton = onButton;
+    };
+
+    /** Listen for binding table changes, including resets and edits made elsewhere. */
+    const onChange = (listener: () => void) => settings.subscribe((next, previous) => {
+        if (next.inputBindings !== previous.inputBindings) listener();
+    });
+
+    const dispose = () => {
+        window.removeEventListener('keydown', handleKeydown);
+        if (swipeTarget) {
+            swipeTarget.removeEventListener('pointerdown', handlePointerDown);
+            swipeTarget.removeEventListener('pointerup', handlePointerUp);
+            swipeTarget.removeEventListener('pointercancel', handlePointerCancel);
+        }
+    };
+
+    return {
+        update,
+        setBinding,
+        reset,
+        captureGamepad,
+        onChange,
+        dispose,
+        /** the current binding table (replaced, never mutated, on change) */
+        get bindings(): Readonly<BindingTable> { return settings.get().inputBindings; },
+    };
+}
+
+export type InputBindings = ReturnType<typeof createInputBindings>;
+
+/**
+ * Settings-panel section listing every action with its bindings. Clicking a binding
+ * removes it; `+` waits for the next key or gamepad button (Esc cancels) and adds it.
+ */
+export function createBindingEditor(input: InputBindings): HTMLElement {
+    const section = document.createElement('section');
+    section.className = 'hud-panel__bindings';
+    section.setAttribute('aria-label', 'Input bindings');
+
+    let stopCapture: (() => void) | null = null;
+
+    const chip = (text: string, title: string, onRemove: () => void) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'hud-binding__chip';
+        button.textContent = text;
+        button.title = title;
+        button.addEventListener('click', onRemove);
+        return button;
+    };
+
+    const startCapture = (action: InputAction, addButton: HTMLButtonElement) => {
+        stopCapture?.();
+        addButton.textContent = 'Press…';
+        const finish = (change?: (binding: InputBinding) => InputBinding) => {
+            stopCapture?.();
+            const binding = input.bindings[action];
+            if (change) input.setBinding(action, change(binding));
+            else render();
+        };
+        const handleKey = (event: KeyboardEvent) => {
+            event.preventDefault();
+            event.stopImmediatePropagation();
+            if (event.key === 'Escape') {
+                finish();
+                return;
+            }
+            if (['Control', 'Alt', 'Shift', 'Meta'].includes(event.key)) return;
+            const token = keyToken(event);
+            finish((binding) => ({ ...binding, keys: binding.keys.includes(token) ? binding.keys : [...binding.keys, token] }));
+        };
+        // Capture phase on window, so the key reaches neither the deck nor the focused button.
+        window.addEventListener('keydown', handleKey, true);
+        input.captureGamepad((button) => finish((binding) => ({
+            ...binding,
+            buttons: binding.buttons.includes(button) ? binding.buttons : [...binding.buttons, button],
+        })));
+        stopCapture = () => {
+            window.removeEventListener('keydown', handleKey, true);
+            input.captureGamepad(null);
+            stopCapture = null;
+        };
+    };
+
+    const render = () => {
+        section.replaceChildren(...(Object.keys(INPUT_ACTIONS) as InputAction[]).map((action) => {
+            const binding = input.bindings[action];
+            const row = document.createElement('p');
+            row.className = 'hud-binding';
+
+            const label = document.createElement('span');
+            label.className = 'hud-panel__label';
+            label.textContent = INPUT_ACTIONS[action];
+
+            const remove = (change: (binding: InputBinding) => InputBinding) => () => input.setBinding(action, change(input.bindings[action]));
+            const chips = [
+                ...binding.keys.map((key) => chip(KEY_LABELS[key] ?? key, `Remove key ${key}`, remove((b) => ({ ...b, keys: b.keys.filter((k) => k !== key) })))),
+                ...binding.swipes.map((swipe) => chip(SWIPE_LABELS[swipe], `Remove ${swipe} swipe`, remove((b) => ({ ...b, swipes: b.swipes.filter((s) => s !== swipe) })))),
+                ...binding.buttons.map((button) => chip(`Pad ${button}`, `Remove gamepad button ${button}`, remove((b) => ({ ...b, buttons: b.buttons.filter((n) => n !== button) })))),
+            ];
+
+            const add = document.createElement('button');
+            add.type = 'button';
+            add.className = 'hud-binding__chip hud-binding__chip--add';
+            add.textContent = '+';
+            add.title = `Add a key or gamepad button for ${INPUT_ACTIONS[action]}`;
+            add.addEventListener('click', () => startCapture(action, add));
+
+            row.append(label, ...chips, add);
+            return row;
+        }));
+
+        const reset = document.createElement('button');
+        reset.type = 'button';
+        reset.className = 'hud-panel__action';
+        reset.textContent = 'Reset Bindings';
+        reset.addEventListener('click', () => input.reset());
+        section.appendChild(reset);
+    };
+
+    input.onChange(render);
+    render();
+    return section;
+}
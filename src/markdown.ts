@@ -0,0 +1,356 @@
+/**
+ * Small Markdown-to-HTML converter for topic bodies and HUD copy. Covers what slides
+ * need — ATX headings, paragraphs, nested bullet/numbered lists, block quotes, rules,
+ * fenced code, emphasis, inline code, links, images and raw HTML — and emits the tags
+ * the world page renderer and HUD already understand.
+ */
+
+const FENCE = /^ {0,3}(`{3,}|~{3,})\s*([\w+-]*)/;
+const HEADING = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const RULE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const QUOTE = /^ {0,3}>\s?/;
+const LIST_ITEM = /^(\s*)([-*+]|\d{1,9}[.)])(\s+|$)/;
+const HTML_BLOCK = /^ {0,3}<\/?[a-zA-Z][\w-]*(\s|\/?>|$)/;
+
+/**
+ * Convert Markdown to HTML.
+ *
+ * @param source Markdown text.
+ * @returns HTML markup; raw HTML in the source is passed through unchanged.
+ *
+ * @example
+ * ```ts
+ * renderMarkdown('# Hello\n\n- **bold** item');
+ * // '<h1>Hello</h1>\n<ul><li><strong>bold</strong> item</li></ul>'
+ * ```
+ */
+export function renderMarkdown(source: string): string {
+    return renderBlocks(source.replace(/\r\n?/g, '\n').split('\n'));
+}
+
+function renderBlocks(lines: string[]): string {
+    const html: string[] = [];
+    let paragraph: string[] = [];
+    const flush = () => {
+        if (paragraph.length > 0) html.push(`<p>${renderInline(paragraph.join('\n'))}</p>`);
+        paragraph = [];
+    };
+
+    let index = 0;
+    while (index < lines.length) {
+        const line = lines[index];
+
+        if (line.trim().length === 0) {
+            flush();
+            index++;
+            continue;
+        }
+
+        const fence = line.match(FENCE);
+        if (fence) {
+            flush();
+            const [, marker, language] = fence;
+            const code: string[] = [];
+            index++;
+            while (index < lines.length && !lines[index].trim().startsWith(marker)) {
+                code.push(lines[index]);
+                index++;
+            }
+            index++;
+            const attribute = language ? ` class="language-${escapeHtml(language)}"` : '';
+            html.push(`<pre><code${attribute}>${escapeHtml(code.join('\n'))}</code></pre>`);
+            continue;
+        }
+
+        const heading = line.match(HEADING);
+        if (heading) {
+            flush();
+            const level = heading[1].length;
+            html.push(`<h${level}>${renderInline(heading[2] ?? '')}</h${level}>`);
+            index++;
+            continue;
+        }
+
+        if (RULE.test(line)) {
+            flush();
+            html.push('<hr>');
+            index++;
+            continue;
+        }
+
+        if (QUOTE.test(line)) {
+            flush();
+            const quoted: string[] = [];
+            while (index < lines.length && QUOTE.test(lines[index])) {
+                quoted.push(lines[index].replace(QUOTE, ''));
+                index++;
+            }
+            html.push(`<blockquote>${renderBlocks(quoted)}</blockquote>`);
+            continue;
+        }
+
+        if (LIST_ITEM.test(line) && (paragraph.length === 0 || /^\s*([-*+]|1[.)])\s/.test(line))) {
+            flush();
+            index = renderList(lines, index, html);
+            continue;
+        }
+
+        if (paragraph.length === 0 && HTML_BLOCK.test(line)) {
+            while (index < lines.length && lines[index].trim().length > 0) {
+                html.push(lines[index]);
+                index++;
+            }
+            continue;
+        }
+
+        paragraph.push(line);
+        index++;
+    }
+
+    flush();
+    return html.join('\n');
+}
+
+/**
+ * Render the list starting at `start` and return the index of the first line after it.
+ * An item owns every following line indented past its marker; items separated by blank
+ * lines render their content as paragraphs ("loose" lists), otherwise inline.
+ */
+function renderList(lines: string[], start: number, html: string[]): number {
+    const first = lines[start].match(LIST_ITEM)!;
+    const baseIndent = first[1].length;
+    const ordered = /\d/.test(first[2]);
+    // Changing the bullet character or the `.`/`)` delimiter starts a new list.
+    const isSibling = (match: RegExpMatchArray | null | undefined) => (
+        !!match && match[1].length === baseIndent && match[2].replace(/\d+/, '1') === first[2].replace(/\d+/, '1')
+    );
+    const bodies: string[][] = [];
+    let loose = false;
+    let index = start;
+
+    while (index < lines.length) {
+        const match = lines[index].match(LIST_ITEM);
+        if (!match || !isSibling(match)) break;
+
+        const contentIndent = match[0].length;
+        const body = [lines[index].slice(contentIndent)];
+        bodies.push(body);
+        index++;
+
+        while (index < lines.length) {
+            const line = lines[index];
+            if (line.trim().length === 0) {
+                const next = lines.slice(index + 1).find((candidate) => candidate.trim().length > 0);
+                if (next !== undefined && indentOf(next) > baseIndent) {
+                    body.push('');
+                    index++;
+                    continue;
+                }
+                // A blank line between sibling items makes the whole list loose.
+                if (!isSibling(next?.match(LIST_ITEM))) return finishList(html, first[2], ordered, bodies, loose, index);
+                loose = true;
+                index++;
+                break;
+            }
+
+            if (indentOf(line) > baseIndent) {
+                body.push(line.slice(Math.min(indentOf(line), contentIndent)));
+            } else if (!LIST_ITEM.test(line) && !startsBlock(line) && body[body.length - 1] !== '') {
+                // Lazy continuation of the item's paragraph.
+                body.push(line.trim());
+            } else {
+                break;
+            }
+            index++;
+        }
+    }
+
+    return finishList(html, first[2], ordered, bodies, loose, index);
+}
+
+function finishList(html: string[], marker: string, ordered: boolean, bodies: string[][], loose: boolean, end: number): number {
+    const tag = ordered ? 'ol' : 'ul';
+    const startNumber = parseInt(marker, 10);
+    const startAttribute = ordered && startNumber !== 1 ? ` start="${startNumber}"` : '';
+    const items = bodies.map((body) => `<li>${renderListItem(body, loose)}</li>`).join('');
+    html.push(`<${tag}${startAttribute}>${items}</${tag}>`);
+    return end;
+}
+
+function startsBlock(line: string): boolean {
+    return FENCE.test(line) || HEADING.test(line) || RULE.test(line) || QUOTE.test(line);
+}
+
+function renderListItem(body: string[], loose: boolean): string {
+    const rendered = renderBlocks(body);
+    if (loose || body.includes('')) return rendered;
+    // Tight items keep their text inline so bullets don't pick up paragraph spacing.
+    return rendered.replace(/^<p>([\s\S]*?)<\/p>/, '$1');
+}
+
+function indentOf(line: string): number {
+    return line.length - line.trimStart().length;
+}
+
+const EMPHASIS_TAGS: Record<string, [string, string]> = {
+    '*': ['<em>', '</em>'],
+    '**': ['<strong>', '</strong>'],
+    '***': ['<strong><em>', '</em></strong>'],
+    '~~': ['<del>', '</del>'],
+};
+
+/** Convert inline Markdown (code, links, images, emphasis, breaks) inside one block. */
+function renderInline(text: string): string {
+    let out = '';
+    let i = 0;
+
+    while (i < text.length) {
+        const char = text[i];
+        const rest = text.slice(i);
+
+        if (char === '\\' && i + 1 < text.length && /[\\`*_{}[\]()#+\-.!~<>|]/.test(text[i + 1])) {
+            out += escapeHtml(text[i + 1]);
+            i += 2;
+            continue;
+        }
+
+        if (char === '\\' && text[i + 1] === '\n') {
+            out += '<br>\n';
+            i += 2;
+            continue;
+        }
+
+        if (char === '\n') {
+            out += /  $/.test(out) ? '<br>\n' : '\n';
+            out = out.replace(/ +(<br>\n)$/, '$1');
+            i++;
+            continue;
+        }
+
+        if (char === '`') {
+            const ticks = rest.match(/^`+/)![0];
+            const close = text.indexOf(ticks, i + ticks.length);
+            if (close !== -1) {
+                const code = text.slice(i + ticks.length, close).replace(/\n/g, ' ');
+                out += `<code>${escapeHtml(code.length > 2 && code.startsWith(' ') && code.endsWith(' ') ? code.slice(1, -1) : code)}</code>`;
+                i = close + ticks.length;
+                continue;
+            }
+            out += ticks;
+            i += ticks.length;
+            continue;
+        }
+
+        if (char === '!' || char === '[') {
+            const link = parseLink(text, char === '!' ? i + 1 : i);
+            if (link) {
+                const title = link.title ? ` title="${escapeHtml(link.title)}"` : '';
+                out += char === '!'
+                    ? `<img src="${escapeHtml(link.href)}" alt="${escapeHtml(link.label)}"${title}>`
+                    : `<a href="${escapeHtml(link.href)}"${title}>${renderInline(link.label)}</a>`;
+                i = link.end;
+                continue;
+            }
+        }
+
+        if (char === '<') {
+            const autolink = rest.match(/^<((?:https?:\/\/|mailto:)[^>\s]+)>/);
+            if (autolink) {
+                out += `<a href="${escapeHtml(autolink[1])}">${escapeHtml(autolink[1].replace(/^mailto:/, ''))}</a>`;
+                i += autolink[0].length;
+                continue;
+            }
+            const tag = rest.match(/^<\/?[a-zA-Z][^>]*>/);
+            if (tag) {
+                out += tag[0];
+                i += tag[0].length;
+                continue;
+            }
+        }
+
+        if (char === '*' || char === '_' || char === '~') {
+            const emphasis = parseEmphasis(text, i);
+            if (emphasis) {
+                const [open, close] = EMPHASIS_TAGS[emphasis.delimiter.replace(/_/g, '*')];
+                out += `${open}${renderInline(emphasis.content)}${close}`;
+                i = emphasis.end;
+                continue;
+            }
+            const run = rest.match(/^([*_~])\1*/)![0];
+            out += run;
+            i += run.length;
+            continue;
+        }
+
+        if (char === '&' && /^&(#\d+|#x[0-9a-f]+|[a-z]+);/i.test(rest)) {
+            out += '&';
+            i++;
+            continue;
+        }
+
+        out += escapeHtml(char);
+        i++;
+    }
+
+    return out;
+}
+
+/**
+ * Parse `[label](href "title")` with `text[start]` at the opening bracket.
+ * @returns The link parts and the index after the closing parenthesis, or null.
+ */
+function parseLink(text: string, start: number): { label: string; href: string; title?: string; end: number } | null {
+    if (text[start] !== '[') return null;
+
+    let depth = 0;
+    let labelEnd = -1;
+    for (let i = start; i < text.length; i++) {
+        if (text[i] === '\\') { i++; continue; }
+        if (text[i] === '[') depth++;
+        if (text[i] === ']' && --depth === 0) { labelEnd = i; break; }
+    }
+    if (labelEnd === -1 || text[labelEnd + 1] !== '(') return null;
+
+    const target = text.slice(labelEnd + 2).match(/^\s*<?([^\s)>]*)>?(?:\s+(["'])(.*?)\2)?\s*\)/);
+    if (!target) return null;
+
+    return {
+        label: text.slice(start + 1, labelEnd),
+        href: target[1],
+        title: target[3],
+        end: labelEnd + 2 + target[0].length,
+    };
+}
+
+/**
+ * Parse an emphasis span opened by the delimiter run at `start`. Underscores only open and
+ * close at word boundaries so identifiers like `snake_case_name` stay intact.
+ */
+function parseEmphasis(text: string, start: number): { delimiter: string; content: string; end: number } | null {
+    const run = text.slice(start).match(/^([*_~])\1*/)![0];
+    const delimiter = run.slice(0, run[0] === '~' ? 2 : 3);
+    if (delimiter === '~' || !(delimiter.replace(/_/g, '*') in EMPHASIS_TAGS)) return null;
+
+    const opensWord = !/\s/.test(text[start + delimiter.length] ?? ' ');
+    if (!opensWord || (delimiter[0] === '_' && /\w/.test(text[start - 1] ?? ''))) return null;
+
+    let close = text.indexOf(delimiter, start + delimiter.length);
+    while (close !== -1) {
+        const before = text[close - 1];
+        const after = text[close + delimiter.length] ?? '';
+        const repeated = after === delimiter[0];
+        if (!/\s/.test(before) && !repeated && !(delimiter[0] === '_' && /\w/.test(after))) break;
+        close = text.indexOf(delimiter, close + (repeated ? delimiter.length + 1 : 1));
+    }
+    if (close === -1) return null;
+
+    return { delimiter, content: text.slice(start + delimiter.length, close), end: close + delimiter.length };
+}
+
+function escapeHtml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
@@ -0,0 +1,124 @@
+import * as THREE from 'three';
+import type { TopicRouter } from './TopicRouter';
+
+const SIZE = 180;
+const PADDING = 16;
+const HIT_RADIUS = 10;
+
+/**
+ * Always-on top-down (X/Z) minimap in the bottom-right corner: topics as numbered dots
+ * joined in navigation order, the current topic highlighted, and the camera as an arrow
+ * pointing where it looks. Clicking a dot navigates to that topic.
+ *
+ * @param camera Camera whose position and heading are shown.
+ * @param router Router providing the topics and handling clicks.
+ * @param host Element the minimap is appended to (defaults to `document.body`).
+ * @returns `update` to redraw (call every frame) and `dispose`.
+ */
+export function createMinimap(camera: THREE.Camera, router: TopicRouter, host: HTMLElement = document.body) {
+    const canvas = document.createElement('canvas');
+    canvas.className = 'minimap';
+    canvas.setAttribute('aria-label', 'Topic minimap');
+    const dpr = Math.min(window.devicePixelRatio ?? 1, 2);
+    canvas.width = SIZE * dpr;
+    canvas.height = SIZE * dpr;
+    canvas.style.position = 'absolute';
+    canvas.style.right = '20px';
+    canvas.style.bottom = '20px';
+    canvas.style.width = `${SIZE}px`;
+    canvas.style.height = `${SIZE}px`;
+    canvas.style.borderRadius = '10px';
+    canvas.style.background = 'rgba(0,0,0,0.35)';
+    canvas.style.backdropFilter = 'blur(8px)';
+    canvas.style.cursor = 'pointer';
+    host.appendChild(canvas);
+
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Unable to acquire 2D context for the minimap');
+    }
+
+    const forward = new THREE.Vector3();
+    let toScreen = (x: number, z: number) => ({ x, y: z });
+
+    const update = () => {
+        const topics = router.topicList;
+        const points = [...topics.map((topic) => topic.position), camera.position];
+        const box = new THREE.Box3().setFromPoints(points);
+        const span = Math.max(box.max.x - box.min.x, box.max.z - box.min.z, 1);
+        const scale = (SIZE - PADDING * 2) / span;
+        const offsetX = (SIZE - (box.max.x - box.min.x) * scale) / 2;
+        const offsetY = (SIZE - (box.max.z - box.min.z) * scale) / 2;
+        toScreen = (x, z) => ({ x: offsetX + (x - box.min.x) * scale, y: offsetY + (z - box.min.z) * scale });
+
+        ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+        ctx.clearRect(0, 0, SIZE, SIZE);
+
+        ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)';
+        ctx.lineWidth = 1;
+        ctx.setLineDash([4, 3]);
+        ctx.beginPath();
+        topics.forEach(({ position }, i) => {
+            const { x, y } = toScreen(position.x, position.z);
+            if (i === 0) ctx.moveTo(x, y);
+            else ctx.lineTo(x, y);
+        });
+        ctx.stroke();
+        ctx.setLineDash([]);
+
+        ctx.font = '600 9px system-ui, sans-serif';
+        ctx.textAlign = 'center';
+        ctx.textBaseline = 'middle';
+        topics.forEach(({ position }, i) => {
+            const { x, y } = toScreen(position.x, position.z);
+            const isCurrent = i === router.currentIndex;
+            ctx.fillStyle = isCurrent ? '#ffcc00' : '#7cc4ff';
+            ctx.beginPath();
+            ctx.arc(x, y, isCurrent ? 7 : 6, 0, Math.PI * 2);
+            ctx.fill();
+            ctx.fillStyle = '#0c0c14';
+            ctx.fillText(String(i + 1), x, y + 0.5);
+        });
+
+        camera.getWorldDirection(forward);
+        const heading = Math.atan2(forward.z, forward.x);
+        const { x, y } = toScreen(camera.position.x, camera.position.z);
+        ctx.save();
+        ctx.translate(x, y);
+        ctx.rotate(heading);
+        ctx.fillStyle = '#ffffff';
+        ctx.beginPath();
+        ctx.moveTo(8, 0);
+        ctx.lineTo(-5, 5);
+        ctx.lineTo(-2, 0);
+        ctx.lineTo(-5, -5);
+        ctx.closePath();
+        ctx.fill();
+        ctx.restore();
+    };
+
+    const handleClick = (event: MouseEvent) => {
+        const rect = canvas.getBoundingClientRect();
+        const clickX = event.clientX - rect.left;
+        const clickY = event.clientY - rect.top;
+        let nearest = -1;
+        let nearestDistance = HIT_RADIUS;
+        router.topicList.forEach(({ position }, i) => {
+            const { x, y } = toScreen(position.x, position.z);
+            const distance = Math.hypot(x - clickX, y - clickY);
+            if (distance <= nearestDistance) {
+                nearest = i;
+                nearestDistance = distance;
+            }
+        });
+        if (nearest !== -1) router.goTo(nearest);
+    };
+    canvas.addEventListener('click', handleClick);
+
+    const dispose = () => {
+        canvas.removeEventListener('click', handleClick);
+        canvas.remove();
+    };
+
+    return { update, dispose };
+}
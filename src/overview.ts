@@ -0,0 +1,253 @@
+import * as THREE from 'three';
+import { InteractionManager } from './InteractionManager';
+import type { TopicRouter } from './TopicRouter';
+
+/**
+ * Optional behaviour for the overview.
+ * @property {() => THREE.Vector3[]} [getPagePositions] World positions of page panels to include in the framing.
+ * @property {number} [durationMs] Length of the fly-out/fly-back animation.
+ */
+export type OverviewOptions = {
+    getPagePositions?: () => THREE.Vector3[];
+    durationMs?: number;
+};
+
+const MARKER_COLOR = new THREE.Color('#7cc4ff');
+const CURRENT_MARKER_COLOR = new THREE.Color('#ffcc00');
+const PATH_COLOR = new THREE.Color('#ffffff');
+const LABEL_WIDTH = 512;
+const LABEL_HEIGHT = 96;
+/** Camera direction from the framed centre: above and in front, so depth reads clearly. */
+const VIEW_DIRECTION = new THREE.Vector3(0.35, 0.8, 1).normalize();
+
+type CameraPose = { position: THREE.Vector3; quaternion: THREE.Quaternion };
+
+/**
+ * Overview mode: pulls the camera back to frame every topic and page panel, draws a
+ * numbered marker per topic and the path between them in navigation order. Clicking a
+ * marker navigates there; any navigation leaves the overview and the router flies in
+ * from the overview pose. Leaving without navigating flies back to where the camera was.
+ *
+ * Call `update` every frame. While `isActive` is true the overview owns the camera, so
+ * skip `router.update` in the meantime.
+ *
+ * @example
+ * ```ts
+ * const overview = createOverview(scene, camera, router);
+ * window.addEventListener('keydown', (e) => { if (e.key === 'o') overview.toggle(); });
+ * ```
+ */
+export function createOverview(scene: THREE.Scene, camera: THREE.PerspectiveCamera, router: TopicRouter, options: OverviewOptions = {}) {
+    const durationMs = options.durationMs ?? 900;
+    const interactions = InteractionManager.getInstance();
+
+    const group = new THREE.Group();
+    group.name = 'topic-overview';
+    group.visible = false;
+    scene.add(group);
+
+    let shown = false;
+    let animation: { from: CameraPose; to: CameraPose; elapsed: number; returning: boolean } | null = null;
+    let returnPose: CameraPose | null = null;
+    let savedFog: { near: number; far: number } | null = null;
+    let markers: Array<{ mesh: THREE.Mesh<THREE.SphereGeometry, THREE.MeshBasicMaterial>; label: THREE.Sprite }> = [];
+
+    const clear = () => {
+        markers.forEach(({ mesh, label }) => {
+            interactions.unregister(mesh);
+            interactions.unregister(label);
+            label.material.map?.dispose();
+            label.material.dispose();
+        });
+        markers = [];
+        group.children.slice().forEach((child) => {
+            group.remove(child);
+            if (child instanceof THREE.Mesh || child instanceof THREE.Line) {
+                child.geometry.dispose();
+                (child.material as THREE.Material).dispose();
+            }
+        });
+    };
+
+    const highlightCurrent = () => {
+        markers.forEach(({ mesh }, i) => {
+            mesh.material.color.copy(i === router.currentIndex ? CURRENT_MARKER_COLOR : MARKER_COLOR);
+        });
+    };
+
+    /** Rebuild markers and the path from the router's current topics; returns the framing sphere. */
+    const build = (): THREE.Sphere => {
+        clear();
+        const topics = router.topicList;
+        const framed = [
+            ...topics.flatMap((topic) => [...(topic.waypoints ?? []), topic.position]),
+            ...(options.getPagePositions?.() ?? []),
+        ];
+        const sphere = new THREE.Box3().setFromPoints(framed).getBoundingSphere(new THREE.Sphere());
+        sphere.radius = Math.max(sphere.radius, 1);
+        const markerSize = sphere.radius * 0.025;
+
+        const pathPoints = topics.flatMap((topic) => [...(topic.waypoints ?? []), topic.position]);
+        if (pathPoints.length > 1) {
+            const path = new THREE.Line(
+                new THREE.BufferGeometry().setFromPoints(pathPoints),
+                new THREE.LineDashedMaterial({ color: PATH_COLOR, dashSize: markerSize * 2, gapSize: markerSize, transparent: true, opacity: 0.6, depthTest: false, fog: false }),
+            );
+            path.computeLineDistances();
+            path.renderOrder = 20;
+            group.add(path);
+        }
+
+        topics.forEach((topic, i) => {
+            const mesh = new THREE.Mesh(
+                new THREE.SphereGeometry(markerSize, 16, 12),
+                new THREE.MeshBasicMaterial({ color: MARKER_COLOR, depthTest: false, fog: false }),
+            );
+            mesh.position.copy(topic.position);
+            mesh.renderOrder = 21;
+
+            const label = new THREE.Sprite(new THREE.SpriteMaterial({ map: createLabelTexture(`${i + 1}. ${topic.title}`), depthTest: false, fog: false }));
+            const labelHeight = markerSize * 2.5;
+            label.scale.set(labelHeight * (LABEL_WIDTH / LABEL_HEIGHT), labelHeight, 1);
+            label.center.set(0.5, -0.4);
+            label.position.copy(topic.position);
+            label.renderOrder = 22;
+
+            const select = () => router.goTo(i);
+            interactions.on(mesh, 'click', select);
+            interactions.on(label, 'click', select);
+            group.add(mesh, label);
+            markers.push({ mesh, label });
+        });
+
+        highlightCurrent();
+        return sphere;
+    };
+
+    const currentPose = (): CameraPose => ({ position: camera.position.clone(), quaternion: camera.quaternion.clone() });
+
+    const framingPose = (sphere: THREE.Sphere): CameraPose => {
+        const verticalFov = THREE.MathUtils.degToRad(camera.fov);
+        const horizontalFov = 2 * Math.atan(Math.tan(verticalFov / 2) * camera.aspect);
+        const distance = (sphere.radius * 1.1) / Math.sin(Math.min(verticalFov, horizontalFov) / 2);
+        const position = sphere.center.clone().addScaledVector(VIEW_DIRECTION, distance);
+        const quaternion = new THREE.Quaternion().setFromRotationMatrix(
+            new THREE.Matrix4().lookAt(position, sphere.center, new THREE.Vector3(0, 1, 0)),
+        );
+        return { position, quaternion };
+    };
+
+    // Push fog back while zoomed out so distant topics stay visible.
+    const adjustFog = (distance: number) => {
+        if (!(scene.fog instanceof THREE.Fog)) return;
+        savedFog = { near: scene.fog.near, far: scene.fog.far };
+        scene.fog.near = savedFog.near + distance;
+        scene.fog.far = savedFog.far + distance;
+    };
+
+    const restoreFog = () => {
+        if (savedFog && scene.fog instanceof THREE.Fog) {
+            scene.fog.near = savedFog.near;
+            scene.fog.far = savedFog.far;
+        }
+        savedFog = null;
+    };
+
+    const enter = () => {
+        if (shown || router.topicList.length === 0) return;
+        shown = true;
+        returnPose = animation?.returning ? animation.to : currentPose();
+        const sphere = build();
+        const target = framingPose(sphere);
+        restoreFog();
+        adjustFog(target.position.distanceTo(sphere.center));
+        group.visible = true;
+        router.resyncCamera();
+        animation = { from: currentPose(), to: target, elapsed: 0, returning: false };
+    };
+
+    /**
+     * Leave the overview. By default the camera flies back to where it was; pass
+     * `restore: false` when a navigation is about to take over the camera.
+     */
+    const exit = ({ restore = true } = {}) => {
+        if (!shown) return;
+        shown = false;
+        group.visible = false;
+        restoreFog();
+        clear();
+        animation = restore && returnPose ? { from: currentPose(), to: returnPose, elapsed: 0, returning: true } : null;
+        returnPose = null;
+        router.resyncCamera();
+    };
+
+    const toggle = () => (shown ? exit() : enter());
+
+    // Any navigation (marker click, keyboard, nav buttons) or timeline scrub hands the camera back to the router.
+    const handOver = () => {
+        exit({ restore: false });
+        animation = null;
+    };
+    const offTransition = router.on('transitionstart', handOver);
+    const offScrub = router.on('scrub', handOver);
+
+    const update = (deltaMs: number) => {
+        if (!animation) return;
+        animation.elapsed += deltaMs;
+        const t = Math.min(animation.elapsed / durationMs, 1);
+        const eased = t * t * (3 - 2 * t);
+        camera.position.lerpVectors(animation.from.position, animation.to.position, eased);
+        camera.quaternion.slerpQuaternions(animation.from.quaternion, animation.to.quaternion, eased);
+        if (t >= 1) animation = null;
+    };
+
+    const dispose = () => {
+        offTransition();
+        offScrub();
+        exit({ restore: false });
+        scene.remove(group);
+    };
+
+    return {
+        enter,
+        exit,
+        toggle,
+        update,
+        dispose,
+        /** True while the overview owns the camera: shown, or flying out or back. */
+        get isActive() { return shown || animation !== null; },
+    };
+}
+
+function createLabelTexture(text: string): THREE.CanvasTexture {
+    const canvas = document.createElement('canvas');
+    canvas.width = LABEL_WIDTH;
+    canvas.height = LABEL_HEIGHT;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+        throw new Error('Unable to acquire 2D context for overview labels');
+    }
+
+    ctx.font = '600 40px system-ui, sans-serif';
+    let label = text;
+    while (label.length > 1 && ctx.measureText(label).width > LABEL_WIDTH - 48) {
+        label = label.slice(0, -1);
+    }
+    if (label !== text) label = `${label.slice(0, -1)}…`;
+
+    const width = Math.min(ctx.measureText(label).width + 48, LABEL_WIDTH);
+    const x = (LABEL_WIDTH - width) / 2;
+    ctx.fillStyle = 'rgba(12, 12, 20, 0.75)';
+    ctx.beginPath();
+    ctx.roundRect(x, 8, width, LABEL_HEIGHT - 16, 16);
+    ctx.fill();
+
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(label, LABEL_WIDTH / 2, LABEL_HEIGHT / 2);
+
+    const texture = new THREE.CanvasTexture(canvas);
+    texture.colorSpace = THREE.SRGBColorSpace;
+    return texture;
+}
@@ -0,0 +1,155 @@
+import type { Topic, TopicRouter } from './TopicRouter';
+
+/** BroadcastChannel name shared by the deck window and the presenter window. */
+const CHANNEL_NAME = 'topic-presenter';
+
+/**
+ * Messages exchanged over the presenter channel. Topics are addressed by index because
+ * both windows load and sort the same topic files.
+ * - `state`: the deck moved to `index`.
+ * - `goto`: the presenter asks the deck to move to `index`.
+ * - `hello`: the presenter window opened and wants the current state.
+ */
+type PresenterMessage =
+    | { type: 'state'; index: number }
+    | { type: 'goto'; index: number }
+    | { type: 'hello' };
+
+/**
+ * Wire the main deck's router to the presenter channel: every navigation is broadcast to
+ * presenter windows, and navigation requested from a presenter window moves the router.
+ *
+ * @param router Router driving the main deck.
+ * @returns `open` to launch the presenter window and `dispose` to close the channel.
+ *
+ * @example
+ * ```ts
+ * const presenter = connectPresenter(router);
+ * if (new URLSearchParams(location.search).has('presenter')) presenter.open();
+ * ```
+ */
+export function connectPresenter(router: TopicRouter) {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    const post = (message: PresenterMessage) => channel.postMessage(message);
+
+    const offTransition = router.on('transitionstart', ({ index }) => post({ type: 'state', index }));
+
+    channel.onmessage = (event: MessageEvent<PresenterMessage>) => {
+        const message = event.data;
+        if (message.type === 'hello') post({ type: 'state', index: router.currentIndex });
+        if (message.type === 'goto' && message.index !== router.currentIndex) router.goTo(message.index);
+    };
+
+    const open = () => {
+        const url = new URL('presenter.html', window.location.href);
+        // Carry `?deck=` over so the presenter loads the same deck.
+        url.search = window.location.search;
+        const opened = window.open(url, 'topic-presenter', 'popup,width=900,height=600');
+        if (!opened) {
+            console.warn('Presenter window was blocked; allow pop-ups or use the presenter button');
+        }
+    };
+
+    const dispose = () => {
+        offTransition();
+        channel.close();
+    };
+
+    return { open, dispose };
+}
+
+/**
+ * Render the speaker view inside the presenter window: current and next topic titles,
+ * the current topic's notes and an elapsed timer. Navigation here moves the deck too.
+ *
+ * @param topics Topics in deck order, as returned by `loadTopics`.
+ * @param host Element the view is appended to (defaults to `document.body`).
+ */
+export function createPresenterView(topics: Topic[], host: HTMLElement = document.body) {
+    const channel = new BroadcastChannel(CHANNEL_NAME);
+    const post = (message: PresenterMessage) => channel.postMessage(message);
+    let index = 0;
+
+    const root = document.createElement('main');
+    root.className = 'presenter';
+    root.innerHTML = `
+        <header class="presenter__header">
+            <span class="presenter__position"></span>
+            <span class="presenter__timer" title="Click to reset">00:00</span>
+        </header>
+        <section class="presenter__current">
+            <h1 class="presenter__title"></h1>
+            <article class="presenter__notes"></article>
+        </section>
+        <footer class="presenter__footer">
+            <button type="button" class="presenter__button" data-step="-1">Previous</button>
+            <span class="presenter__next"></span>
+            <button type="button" class="presenter__button" data-step="1">Next</button>
+        </footer>
+    `;
+    host.appendChild(root);
+
+    const position = root.querySelector<HTMLElement>('.presenter__position')!;
+    const timer = root.querySelector<HTMLElement>('.presenter__timer')!;
+    const title = root.querySelector<HTMLElement>('.presenter__title')!;
+    const notes = root.querySelector<HTMLElement>('.presenter__notes')!;
+    const next = root.querySelector<HTMLElement>('.presenter__next')!;
+
+    const render = () => {
+        const current = topics[index];
+        const upcoming = topics[index + 1];
+        position.textContent = `${index + 1} / ${topics.length}`;
+        title.textContent = current?.title ?? '';
+        notes.innerHTML = current?.notes ?? '<p class="presenter__empty">No notes for this topic.</p>';
+        next.textContent = upcoming ? `Next: ${upcoming.title}` : 'End of deck';
+        document.title = `Presenter – ${current?.title ?? ''}`;
+    };
+
+    const goTo = (target: number) => {
+        if (target < 0 || target >= topics.length) return;
+        index = target;
+        render();
+        post({ type: 'goto', index });
+    };
+
+    root.querySelectorAll<HTMLButtonElement>('[data-step]').forEach((button) => {
+        button.addEventListener('click', () => goTo(index + Number(button.dataset.step)));
+    });
+
+    window.addEventListener('keydown', (e) => {
+        if (e.key === 'ArrowRight' || e.key === 'PageDown') goTo(index + 1);
+        if (e.key === 'ArrowLeft' || e.key === 'PageUp') goTo(index - 1);
+    });
+
+    let startedAt = performance.now();
+    const formatElapsed = (ms: number) => {
+        const totalSeconds = Math.floor(ms / 1000);
+        const minutes = String(Math.floor(totalSeconds / 60)).padStart(2, '0');
+        const seconds = String(totalSeconds % 60).padStart(2, '0');
+        return `${minutes}:${seconds}`;
+    };
+    const tick = () => { timer.textContent = formatElapsed(performance.now() - startedAt); };
+    const interval = window.setInterval(tick, 500);
+    timer.addEventListener('click', () => {
+        startedAt = performance.now();
+        tick();
+    });
+
+    channel.onmessage = (event: MessageEvent<PresenterMessage>) => {
+        const message = event.data;
+        if (message.type !== 'state' || message.index === index) return;
+        index = message.index;
+        render();
+    };
+
+    render();
+    post({ type: 'hello' });
+
+    const dispose = () => {
+        window.clearInterval(interval);
+        channel.close();
+        root.remove();
+    };
+
+    return { dispose };
+}
@@ -0,0 +1,12 @@
+import { loadRemoteTopics, loadTopics } from './topicLoader';
+import { createPresenterView } from './presenter';
+
+// The presenter window has no HUD of its own; topic copy is only shown in the deck window.
+const hud = { set: () => {} };
+
+const deckUrl = new URLSearchParams(window.location.search).get('deck');
+if (deckUrl) {
+    loadRemoteTopics(deckUrl, hud).then(({ topics }) => createPresenterView(topics), (error) => console.error(error));
+} else {
+    createPresenterView(loadTopics(hud).topics);
+}
@@ -0,0 +1,91 @@
+/**
+ * Allowlist HTML sanitiser for topic markup from untrusted sources (remote decks). Keeps
+ * the formatting the HUD, presenter notes and world pages understand; everything else is
+ * unwrapped (its text kept) or, for elements whose content is code or embedded documents,
+ * dropped.
+ */
+
+const ALLOWED_TAGS = new Set([
+    'a', 'abbr', 'b', 'blockquote', 'br', 'code', 'del', 'div', 'em', 'figcaption', 'figure',
+    'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'hr', 'i', 'img', 'kbd', 'li', 'mark', 'ol', 'p', 'pre',
+    's', 'section', 'small', 'span', 'strong', 'sub', 'sup', 'table', 'tbody', 'td', 'th',
+    'thead', 'tr', 'u', 'ul',
+]);
+
+/** Removed with their content rather than unwrapped. */
+const DROPPED_TAGS = new Set([
+    'script', 'style', 'template', 'iframe', 'frame', 'frameset', 'object', 'embed', 'applet',
+    'noscript', 'svg', 'math', 'form', 'input', 'button', 'select', 'textarea', 'link', 'meta', 'base',
+]);
+
+const ALLOWED_ATTRIBUTES: Record<string, string[]> = {
+    '*': ['class', 'title', 'lang', 'style'],
+    a: ['href'],
+    img: ['src', 'alt', 'width', 'height'],
+    ol: ['start'],
+    li: ['value'],
+    td: ['colspan', 'rowspan'],
+    th: ['colspan', 'rowspan'],
+};
+
+/** Inline style properties world pages read; other declarations are removed. */
+const ALLOWED_STYLES = ['color', 'font-weight', 'font-style', 'text-decoration'];
+
+const SAFE_LINK = /^(https?:|mailto:|#|\/|\.{0,2}\/|[^:]*$)/i;
+const SAFE_IMAGE = /^(https?:|data:image\/(png|gif|jpe?g|webp);|\/|\.{0,2}\/|[^:]*$)/i;
+
+/**
+ * Return `html` with only allowlisted elements, attributes and URLs left. Parsing happens
+ * in an inert document, so nothing in the input runs or loads while it is cleaned.
+ *
+ * @example
+ * ```ts
+ * sanitizeHtml('<p onclick="x()">Hi <img src=x onerror=alert(1)></p>');
+ * // '<p>Hi <img src="x"></p>'
+ * ```
+ */
+export function sanitizeHtml(html: string): string {
+    const doc = new DOMParser().parseFromString(`<body>${html}</body>`, 'text/html');
+    cleanChildren(doc.body);
+    return doc.body.innerHTML;
+}
+
+function cleanChildren(parent: Element) {
+    Array.from(parent.childNodes).forEach((node) => {
+        if (node.nodeType === Node.TEXT_NODE) return;
+        if (!(node instanceof Element)) {
+            node.remove();
+            return;
+        }
+        const tag = node.tagName.toLowerCase();
+        if (DROPPED_TAGS.has(tag)) {
+            node.remove();
+            return;
+        }
+        cleanChildren(node);
+        if (!ALLOWED_TAGS.has(tag)) {
+            node.replaceWith(...Array.from(node.childNodes));
+            return;
+        }
+        cleanAttributes(node, tag);
+    });
+}
+
+function cleanAttributes(element: Element, tag: string) {
+    const allowed = [...ALLOWED_ATTRIBUTES['*'], ...(ALLOWED_ATTRIBUTES[tag] ?? [])];
+    Array.from(element.attributes).forEach(({ name, value }) => {
+        const url = value.trim();
+        const keep = allowed.includes(name)
+            && !(name === 'href' && !SAFE_LINK.test(url))
+            && !(name === 'src' && !SAFE_IMAGE.test(url));
+        if (!keep) element.removeAttribute(name);
+    });
+
+    if (element instanceof HTMLElement && element.hasAttribute('style')) {
+        const declarations = ALLOWED_STYLES
+            .map((property) => [property, element.style.getPropertyValue(property)] as const)
+            .filter(([, value]) => value && !/url\(|expression\(/i.test(value));
+        element.removeAttribute('style');
+        declarations.forEach(([property, value]) => element.style.setProperty(property, value));
+    }
+}
@@ -0,0 +1,139 @@
+import { THEME_NAMES, type ThemeName } from './themes';
+
+/**
+ * Declarative scene commands a topic can trigger from its `actions:` frontmatter field.
+ * Each action runs when the topic is entered and is reverted when the topic is left.
+ *
+ * @example
+ * ```
+ * actions: [{"type": "highlight", "target": "Cube_12"}, {"type": "speed", "value": 0}]
+ * ```
+ */
+export type SceneAction =
+    | { type: 'highlight'; target: string; color?: string }
+    | { type: 'speed'; value: number }
+    | { type: 'theme'; mode: ThemeName }
+    | { type: 'light'; color: string; intensity: number }
+    | { type: 'material'; color: string; metalness: number; roughness: number }
+    | { type: 'gradient'; start: string; end: string };
+
+export type SceneActionType = SceneAction['type'];
+
+/**
+ * Applies an action to the scene. May return a function that restores the previous state.
+ */
+export type SceneActionHandler<T extends SceneActionType> = (
+    action: Extract<SceneAction, { type: T }>,
+) => (() => void) | void;
+
+type AnySceneActionHandler = (action: SceneAction) => (() => void) | void;
+
+type FieldKind = 'string' | 'number';
+
+/** Required and optional fields for every action type, used to validate frontmatter input. */
+const ACTION_FIELDS: Record<SceneActionType, { required: Record<string, FieldKind>; optional?: Record<string, FieldKind> }> = {
+    highlight: { required: { target: 'string' }, optional: { color: 'string' } },
+    speed: { required: { value: 'number' } },
+    theme: { required: { mode: 'string' } },
+    light: { required: { color: 'string', intensity: 'number' } },
+    material: { required: { color: 'string', metalness: 'number', roughness: 'number' } },
+    gradient: { required: { start: 'string', end: 'string' } },
+};
+
+/**
+ * Check that a frontmatter value is a list of well-formed scene actions, reporting
+ * every problem found rather than stopping at the first.
+ *
+ * @param value Raw `actions` value from the frontmatter.
+ * @param report Receives one message per problem.
+ * @returns true when the value is a valid action list.
+ */
+export function validateSceneActions(value: unknown, report: (message: string) => void): value is SceneAction[] {
+    if (!Array.isArray(value)) {
+        report('Invalid actions; expected a JSON array of action objects');
+        return false;
+    }
+
+    let valid = true;
+    const fail = (message: string) => {
+        report(message);
+        valid = false;
+    };
+
+    value.forEach((action, index) => {
+        if (typeof action !== 'object' || action === null || typeof action.type !== 'string') {
+            fail(`Invalid action #${index + 1}; expected an object with a string type`);
+            return;
+        }
+
+        const spec = ACTION_FIELDS[action.type as SceneActionType];
+        if (!spec) {
+            fail(`Unknown action type "${action.type}"; expected one of ${Object.keys(ACTION_FIELDS).join(', ')}`);
+            return;
+        }
+
+        Object.entries(spec.required).forEach(([field, kind]) => {
+            if (typeof action[field] !== kind) {
+                fail(`Action "${action.type}" requires ${kind} field "${field}"`);
+            }
+        });
+
+        Object.entries(spec.optional ?? {}).forEach(([field, kind]) => {
+            if (action[field] !== undefined && typeof action[field] !== kind) {
+                fail(`Action "${action.type}" has invalid ${field}; expected ${kind}`);
+            }
+        });
+
+        if (action.type === 'theme' && !THEME_NAMES.some((name) => name === action.mode)) {
+            fail(`Action "theme" has invalid mode; expected one of ${THEME_NAMES.map((name) => `"${name}"`).join(', ')}`);
+        }
+    });
+
+    return valid;
+}
+
+/**
+ * Create a registry mapping action types to the scene handlers that apply them.
+ * The loader runs a topic's actions through the registry on enter and calls the
+ * returned undo function on leave.
+ *
+ * @example
+ * ```ts
+ * const sceneActions = createSceneActionRegistry();
+ * sceneActions.register('speed', ({ value }) => {
+ *     const previous = speed;
+ *     setSpeed(value);
+ *     return () => setSpeed(previous);
+ * });
+ * const undo = sceneActions.run([{ type: 'speed', value: 0 }]);
+ * undo();
+ * ```
+ */
+export function createSceneActionRegistry() {
+    const handlers = new Map<SceneActionType, AnySceneActionHandler>();
+
+    const register = <T extends SceneActionType>(type: T, handler: SceneActionHandler<T>) => {
+        handlers.set(type, handler as unknown as AnySceneActionHandler);
+    };
+
+    const run = (actions: SceneAction[]): () => void => {
+        const undos: Array<() => void> = [];
+
+        actions.forEach((action) => {
+            const handler = handlers.get(action.type);
+            if (!handler) {
+                console.warn(`No handler registered for scene action "${action.type}"`);
+                return;
+            }
+            const undo = handler(action);
+            if (undo) undos.push(undo);
+        });
+
+        // Revert in reverse order so overlapping actions restore the original state.
+        return () => undos.reverse().forEach((undo) => undo());
+    };
+
+    return { register, run };
+}
+
+export type SceneActionRegistry = ReturnType<typeof createSceneActionRegistry>;
@@ -0,0 +1,17 @@
+/** Number of cubes stacked in the rotating column. */
+export const NUMBER_OF_CUBES = 30;
+
+/**
+ * Scene object name of the cube at index i; topics can use it as an `anchorId`
+ * or as the `target` of a highlight action.
+ * @param i {number} cube index, 0 at the bottom of the column
+ */
+export const cubeAnchorId = (i: number) => `Cube_${i}`;
+
+/**
+ * Every named object in the scene a topic `anchorId` may reference.
+ * Kept free of Three.js so the topic linter can run under Node.
+ */
+export function listSceneAnchors(): string[] {
+    return Array.from({ length: NUMBER_OF_CUBES }, (_, i) => cubeAnchorId(i));
+}
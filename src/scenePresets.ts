@@ -0,0 +1,219 @@
+import type { SettingsHistory } from './settingsHistory';
+import { SCENE_SETTING_KEYS, parseScenePreset, pickSceneSettings, type SceneSettings, type ScenePreset, type Settings, type SettingsStore } from './settingsStore';
+
+const PRESET_FORMAT = 'scene-preset';
+const URL_VERSION = '2';
+
+/**
+ * Serialise a preset for a `.json` file that `presetFromJson` reads back.
+ */
+export function presetToJson(preset: ScenePreset): string {
+    return JSON.stringify({ format: PRESET_FORMAT, version: 1, name: preset.name, settings: preset.settings }, null, 2);
+}
+
+/**
+ * Read a preset file written by `presetToJson`.
+ * @throws {Error} when the text isn't JSON or holds no named preset
+ */
+export function presetFromJson(text: string, source = 'Preset file'): ScenePreset {
+    let data: unknown;
+    try {
+        data = JSON.parse(text);
+    } catch (error) {
+        throw new Error(`${source} is not valid JSON: ${(error as Error).message}`);
+    }
+    const preset = parseScenePreset(data);
+    if (!preset) throw new Error(`${source} has no preset name and settings`);
+    return preset;
+}
+
+/**
+ * Encode a preset as a short string for a `?preset=` link: the version, then every scene
+ * setting in `SCENE_SETTING_KEYS` order (colours without `#`), then the name, separated
+ * by `~`. For example `2~dark~50~010003~000000~0d00ff~2~000000~0.8~0.2~Midnight`.
+ */
+export function encodePreset(preset: ScenePreset): string {
+    const values = SCENE_SETTING_KEYS.map((key) => {
+        const value = preset.settings[key];
+        if (typeof value === 'string') return value.replace(/^#/, '');
+        return String(Number(value.toFixed(3)));
+    });
+    return [URL_VERSION, ...values, preset.name].join('~');
+}
+
+/**
+ * Decode a string made by `encodePreset`. Version 1 links, which stored dark mode as
+ * `d`/`l` where the theme now is, still work.
+ * @throws {Error} when the string is from an unknown version or is missing settings
+ */
+export function decodePreset(text: string): ScenePreset {
+    const [version, ...parts] = text.split('~');
+    if (version !== URL_VERSION && version !== '1') throw new Error(`Preset link version "${version}" is not supported`);
+    if (parts.length <= SCENE_SETTING_KEYS.length) throw new Error('Preset link is missing settings');
+
+    const settings = Object.fromEntries(SCENE_SETTING_KEYS.map((key, i) => {
+        const part = parts[i];
+        if (key === 'theme') return [key, version === '1' ? (part === 'd' ? 'dark' : 'light') : part];
+        if (/color$/i.test(key)) return [key, `#${part}`];
+        return [key, Number(part)];
+    }));
+    // `~` may appear in the name itself.
+    const name = parts.slice(SCENE_SETTING_KEYS.length).join('~');
+    const preset = parseScenePreset({ name, settings });
+    if (!preset) throw new Error('Preset link has no name');
+    return preset;
+}
+
+const sameLook = (a: SceneSettings, b: SceneSettings) => SCENE_SETTING_KEYS.every((key) => a[key] === b[key]);
+
+/**
+ * Settings-panel section for presets: a picker of the built-in and saved presets
+ * (choosing one applies it), plus buttons to save the current look, delete a saved
+ * preset, export or import a `.json` file and copy a `?preset=` link. With a `history`,
+ * applying a preset can be undone; saving or deleting one can't.
+ */
+export function createPresetPicker(settings: SettingsStore, builtIns: readonly ScenePreset[], history?: SettingsHistory): HTMLElement {
+    const section = document.createElement('section');
+    section.className = 'hud-panel__presets';
+    section.setAttribute('aria-label', 'Scene presets');
+
+    const row = document.createElement('label');
+    row.className = 'hud-panel__row';
+    const text = document.createElement('span');
+    text.className = 'hud-panel__label';
+    text.textContent = 'Preset';
+    const select = document.createElement('select');
+    select.className = 'hud-panel__select';
+    row.append(text, select);
+
+    const actions = document.createElement('p');
+    actions.className = 'hud-panel__actions';
+
+    const status = document.createElement('small');
+    status.className = 'hud-panel__status';
+    status.setAttribute('role', 'status');
+
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.json,application/json';
+    fileInput.hidden = true;
+
+    const saved = () => settings.get().presets;
+    const current = () => pickSceneSettings(settings.get());
+
+    /** The chosen preset: `builtin:<index>`, `saved:<index>` or `` for a custom look. */
+    const selected = (): { preset: ScenePreset; saved: boolean } | null => {
+        const [group, index] = select.value.split(':');
+        const preset = (group === 'saved' ? saved() : builtIns)[Number(index)];
+        return preset ? { preset, saved: group === 'saved' } : null;
+    };
+
+    const withPreset = (preset: ScenePreset) => [...saved().filter(({ name }) => name !== preset.name), preset];
+
+    const applyLook = (patch: Partial<Settings>) => {
+        const write = () => settings.set(patch);
+        if (history) history.record(write);
+        else write();
+    };
+
+    const report = (message: string) => {
+        status.textContent = message;
+    };
+
+    const button = (label: string, handler: () => void) => {
+        const element = document.createElement('button');
+        element.type = 'button';
+        element.className = 'hud-panel__action';
+        element.textContent = label;
+        element.addEventListener('click', handler);
+        actions.appendChild(element);
+        return element;
+    };
+
+    button('Save As…', () => {
+        const name = window.prompt('Preset name', selected()?.preset.name ?? 'My preset')?.trim();
+        if (!name) return;
+        settings.set({ presets: withPreset({ name, settings: current() }) });
+        report(`Saved "${name}"`);
+    });
+
+    const deleteButton = button('Delete', () => {
+        const choice = selected();
+        if (!choice?.saved) return;
+        settings.set({ presets: saved().filter((preset) => preset !== choice.preset) });
+        report(`Deleted "${choice.preset.name}"`);
+    });
+
+    button('Export', () => {
+        const preset = selected()?.preset ?? { name: 'Custom', settings: current() };
+        const url = URL.createObjectURL(new Blob([presetToJson(preset)], { type: 'application/json' }));
+        const link = document.createElement('a');
+        link.href = url;
+        link.download = `${preset.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'preset'}.preset.json`;
+        link.click();
+        URL.revokeObjectURL(url);
+    });
+
+    button('Import', () => fileInput.click());
+    fileInput.addEventListener('change', async () => {
+        const file = fileInput.files?.[0];
+        fileInput.value = '';
+        if (!file) return;
+        try {
+            const preset = presetFromJson(await file.text(), `Preset file ${file.name}`);
+            applyLook({ ...preset.settings, presets: withPreset(preset) });
+            report(`Imported "${preset.name}"`);
+        } catch (error) {
+            report((error as Error).message);
+        }
+    });
+
+    button('Copy Link', async () => {
+        const preset = selected()?.preset ?? { name: 'Custom', settings: current() };
+        const url = new URL(window.location.href);
+        url.searchParams.set('preset', encodePreset(preset));
+        try {
+            await navigator.clipboard.writeText(url.href);
+            report('Link copied');
+        } catch {
+            window.prompt('Copy this link', url.href);
+        }
+    });
+
+    select.addEventListener('change', () => {
+        const choice = selected();
+        if (choice) applyLook(choice.preset.settings);
+    });
+
+    const render = () => {
+        const option = (label: string, value: string) => {
+            const element = document.createElement('option');
+            element.value = value;
+            element.textContent = label;
+            return element;
+        };
+        const group = (label: string, presets: readonly ScenePreset[], prefix: string) => {
+            const element = document.createElement('optgroup');
+            element.label = label;
+            element.append(...presets.map((preset, i) => option(preset.name, `${prefix}:${i}`)));
+            return element;
+        };
+
+        const look = current();
+        const builtInIndex = builtIns.findIndex((preset) => sameLook(preset.settings, look));
+        const savedIndex = saved().findIndex((preset) => sameLook(preset.settings, look));
+        select.replaceChildren(
+            option('Custom', ''),
+            group('Built-in', builtIns, 'builtin'),
+            ...(saved().length > 0 ? [group('Saved', saved(), 'saved')] : []),
+        );
+        select.value = savedIndex !== -1 ? `saved:${savedIndex}` : builtInIndex !== -1 ? `builtin:${builtInIndex}` : '';
+        deleteButton.disabled = !selected()?.saved;
+    };
+
+    settings.subscribe(render);
+    render();
+
+    section.append(row, actions, status, fileInput);
+    return section;
+}
@@ -0,0 +1,183 @@
+import { isEditableTarget } from './inputBindings';
+import { SCENE_SETTING_KEYS, pickSceneSettings, type SceneSettings, type Settings, type SettingsStore } from './settingsStore';
+
+/**
+ * Options for the settings history.
+ * @property {number} [limit] Steps kept; the oldest are dropped first (defaults to 100).
+ * @property {number} [mergeWindowMs] Changes to the same settings closer together than this
+ *   become one step, as do changes made during one pointer drag (defaults to 500).
+ */
+export type SettingsHistoryOptions = {
+    limit?: number;
+    mergeWindowMs?: number;
+};
+
+type HistoryEntry = {
+    before: SceneSettings;
+    after: SceneSettings;
+    keys: string;
+    time: number;
+    gesture: number;
+};
+
+/**
+ * True for fields where Ctrl+Z should keep its native meaning (text inputs and the like),
+ * as opposed to sliders, colour pickers, checkboxes and selects.
+ */
+function isTextEntryTarget(target: EventTarget | null): boolean {
+    if (target instanceof HTMLSelectElement) return false;
+    if (target instanceof HTMLInputElement && ['range', 'color', 'checkbox', 'radio'].includes(target.type)) return false;
+    return isEditableTarget(target);
+}
+
+/**
+ * Undo/redo for the scene look (`SCENE_SETTING_KEYS`). Only changes made inside `record`
+ * become steps, so saved presets, bindings and colours a theme adopts on its own are
+ * left alone. A slider drag or colour-picker sweep is one step. Ctrl+Z (Cmd+Z) undoes
+ * and Ctrl+Shift+Z redoes, also while a slider has focus.
+ *
+ * @example
+ * ```ts
+ * const history = createSettingsHistory(settings);
+ * slider.addEventListener('input', () => history.record(() => settings.set({ speed: slider.valueAsNumber })));
+ * history.onChange(() => { undoButton.disabled = !history.canUndo(); });
+ * ```
+ */
+export function createSettingsHistory(settings: SettingsStore, options: SettingsHistoryOptions = {}) {
+    const limit = options.limit ?? 100;
+    const mergeWindowMs = options.mergeWindowMs ?? 500;
+    const listeners = new Set<() => void>();
+    let undoStack: HistoryEntry[] = [];
+    let redoStack: HistoryEntry[] = [];
+    let recording: { before?: SceneSettings; after?: SceneSettings } | null = null;
+    let gesture = 0;
+    let pointerDown = false;
+
+    const notify = () => listeners.forEach((listener) => listener());
+
+    const changedKeys = (next: SceneSettings, previous: SceneSettings) =>
+        SCENE_SETTING_KEYS.filter((key) => next[key] !== previous[key]).join(',');
+
+    /** Only the settings a step changed, so undo doesn't revert changes made outside the history. */
+    const stepValues = (entry: HistoryEntry, side: 'before' | 'after'): Partial<SceneSettings> =>
+        Object.fromEntries(entry.keys.split(',').map((key) => [key, entry[side][key as keyof SceneSettings]]));
+
+    const track = (next: Readonly<Settings>, previous: Readonly<Settings>) => {
+        if (!recording) return;
+        recording.before ??= pickSceneSettings(previous);
+        recording.after = pickSceneSettings(next);
+    };
+
+    const push = (before: SceneSettings, after: SceneSettings) => {
+        const keys = changedKeys(after, before);
+        if (keys.length === 0) return;
+        const time = performance.now();
+        const last = undoStack[undoStack.length - 1];
+        const merges = last !== undefined && redoStack.length === 0 && last.keys === keys
+            && ((pointerDown && last.gesture === gesture) || time - last.time < mergeWindowMs);
+        if (merges) {
+            Object.assign(last, { after, time });
+        } else {
+            undoStack = [...undoStack, { before, after, keys, time, gesture }].slice(-limit);
+        }
+        redoStack = [];
+        notify();
+    };
+
+    /**
+     * Run `change`, recording the scene settings it changes as one undoable step (merged
+     * into the previous step during a drag). Nested calls join the outer step.
+     */
+    const record = (change: () => void) => {
+        if (recording) {
+            change();
+            return;
+        }
+        const step: { before?: SceneSettings; after?: SceneSettings } = {};
+        recording = step;
+        try {
+            change();
+        } finally {
+            recording = null;
+        }
+        if (step.before && step.after) push(step.before, step.after);
+    };
+
+    /** Go back one step; does nothing when there is none. */
+    const undo = () => {
+        const entry = undoStack[undoStack.length - 1];
+        if (!entry) return;
+        undoStack = undoStack.slice(0, -1);
+        redoStack = [...redoStack, entry];
+        settings.set(stepValues(entry, 'before'));
+        notify();
+    };
+
+    /** Re-apply the last undone step; does nothing when there is none. */
+    const redo = () => {
+        const entry = redoStack[redoStack.length - 1];
+        if (!entry) return;
+        redoStack = redoStack.slice(0, -1);
+        undoStack = [...undoStack, entry];
+        settings.set(stepValues(entry, 'after'));
+        notify();
+    };
+
+    const clear = () => {
+        undoStack = [];
+        redoStack = [];
+        notify();
+    };
+
+    /**
+     * Listen for the history changing, e.g. to enable undo/redo buttons.
+     * @returns a function that removes the listener
+     */
+    const onChange = (listener: () => void) => {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+    };
+
+    const handleKeydown = (event: KeyboardEvent) => {
+        if (!(event.ctrlKey || event.metaKey) || event.altKey || event.key.toLowerCase() !== 'z') return;
+        if (isTextEntryTarget(event.target)) return;
+        event.preventDefault();
+        if (event.shiftKey) redo();
+        else undo();
+    };
+    const handlePointerDown = () => {
+        pointerDown = true;
+        gesture += 1;
+    };
+    const handlePointerUp = () => {
+        pointerDown = false;
+    };
+
+    const unsubscribe = settings.subscribe(track);
+    window.addEventListener('keydown', handleKeydown);
+    window.addEventListener('pointerdown', handlePointerDown, true);
+    window.addEventListener('pointerup', handlePointerUp, true);
+    window.addEventListener('pointercancel', handlePointerUp, true);
+
+    const dispose = () => {
+        unsubscribe();
+        window.removeEventListener('keydown', handleKeydown);
+        window.removeEventListener('pointerdown', handlePointerDown, true);
+        window.removeEventListener('pointerup', handlePointerUp, true);
+        window.removeEventListener('pointercancel', handlePointerUp, true);
+        listeners.clear();
+    };
+
+    return {
+        record,
+        undo,
+        redo,
+        canUndo: () => undoStack.length > 0,
+        canRedo: () => redoStack.length > 0,
+        clear,
+        onChange,
+        dispose,
+    };
+}
+
+export type SettingsHistory = ReturnType<typeof createSettingsHistory>;
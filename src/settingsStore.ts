@@ -0,0 +1,272 @@
+import { DEFAULT_BINDINGS, normalizeBindings, type BindingTable } from './inputBindings';
+import { THEME_NAMES, type ThemeSetting } from './themes';
+
+/**
+ * Everything the settings panel controls, persisted across visits.
+ * @property {ThemeSetting} theme Named theme, or `auto` to follow the system colour scheme.
+ * @property {number} speed Cube rotation speed, 0-2000 (the scene rotates `speed / 100000` rad per frame).
+ * @property {BindingTable} inputBindings Keyboard, swipe and gamepad bindings per action.
+ * @property {ScenePreset[]} presets Presets the user saved or imported.
+ * @property {Record<string, ControlValue>} controls Values of panel controls that features add, by control key.
+ */
+export type Settings = {
+    theme: ThemeSetting;
+    speed: number;
+    startColor: string;
+    endColor: string;
+    lightColor: string;
+    lightIntensity: number;
+    materialColor: string;
+    metalness: number;
+    roughness: number;
+    inputBindings: BindingTable;
+    presets: ScenePreset[];
+    controls: Record<string, ControlValue>;
+};
+
+export type ControlValue = number | string | boolean;
+
+/** Settings a scene preset captures: the look of the scene, not bindings or saved presets. */
+export const SCENE_SETTING_KEYS = ['theme', 'speed', 'startColor', 'endColor', 'lightColor', 'lightIntensity', 'materialColor', 'metalness', 'roughness'] as const;
+
+export type SceneSettings = Pick<Settings, typeof SCENE_SETTING_KEYS[number]>;
+
+export type ScenePreset = {
+    name: string;
+    settings: SceneSettings;
+};
+
+export type SettingsListener = (settings: Readonly<Settings>, previous: Readonly<Settings>) => void;
+
+/** Version of the persisted shape; bump it and add a migration when `Settings` changes incompatibly. */
+export const SETTINGS_VERSION = 2;
+
+/** The dark scene as first rendered. */
+export const DEFAULT_SETTINGS: Readonly<Settings> = {
+    theme: 'auto',
+    speed: 50,
+    startColor: '#010003',
+    endColor: '#000000',
+    lightColor: '#0d00ff',
+    lightIntensity: 2,
+    materialColor: '#000000',
+    metalness: 0.8,
+    roughness: 0.2,
+    inputBindings: DEFAULT_BINDINGS,
+    presets: [],
+    controls: {},
+};
+
+type StoredData = Record<string, unknown>;
+
+/**
+ * Migrations keyed by the version they upgrade from; each returns data for the next version.
+ */
+const MIGRATIONS: Record<number, (data: StoredData) => StoredData> = {
+    // 0: the unversioned object the old Save button wrote to sessionStorage. Its `darkMode`
+    // was read from button text that was never set, so it can't be trusted.
+    0: ({ darkMode: _unreliable, ...rest }) => rest,
+    // 1: `darkMode` became a named theme, in the settings and in every saved preset.
+    1: (data) => ({
+        ...withTheme(data),
+        ...(Array.isArray(data.presets) ? { presets: data.presets.map((preset) => {
+            const fields = asObject(asObject(preset)?.settings);
+            return fields ? { ...preset, settings: withTheme(fields) } : preset;
+        }) } : {}),
+    }),
+};
+
+const asObject = (value: unknown): StoredData | null =>
+    (typeof value === 'object' && value !== null && !Array.isArray(value) ? value as StoredData : null);
+
+/** Replace a boolean `darkMode` from version 1 data with the matching theme. */
+function withTheme({ darkMode, ...rest }: StoredData): StoredData {
+    return typeof darkMode === 'boolean' ? { ...rest, theme: darkMode ? 'dark' : 'light' } : rest;
+}
+
+const color = (value: unknown) => (typeof value === 'string' && /^#[0-9a-f]{6}$/i.test(value) ? value.toLowerCase() : undefined);
+const theme = (value: unknown) => (value === 'auto' || THEME_NAMES.some((name) => name === value) ? value as ThemeSetting : undefined);
+const range = (min: number, max: number) => (value: unknown) =>
+    (typeof value === 'number' && Number.isFinite(value) ? Math.min(Math.max(value, min), max) : undefined);
+
+/** Per-field validation: the cleaned value, or undefined to reject it. */
+const SCHEMA: { [K in keyof Settings]: (value: unknown) => Settings[K] | undefined } = {
+    theme,
+    speed: range(0, 2000),
+    startColor: color,
+    endColor: color,
+    lightColor: color,
+    lightIntensity: range(0, 2),
+    materialColor: color,
+    metalness: range(0, 1),
+    roughness: range(0, 1),
+    inputBindings: normalizeBindings,
+    presets: (value) => (Array.isArray(value) ? value.map(parseScenePreset).filter((preset) => preset !== undefined) : undefined),
+    controls: (value) => {
+        const data = asObject(value);
+        if (!data) return undefined;
+        return Object.fromEntries(Object.entries(data).filter((entry): entry is [string, ControlValue] =>
+            ['number', 'string', 'boolean'].includes(typeof entry[1])));
+    },
+};
+
+const SETTING_KEYS = Object.keys(SCHEMA) as Array<keyof Settings>;
+
+/**
+ * Validate `data` field by field; missing or invalid fields fall back to `fallback`.
+ */
+function sanitize(data: StoredData, fallback: Readonly<Settings>): Settings {
+    const settings = { ...fallback };
+    SETTING_KEYS.forEach(<K extends keyof Settings>(key: K) => {
+        if (!(key in data)) return;
+        const value = SCHEMA[key](data[key]) as Settings[K] | undefined;
+        if (value === undefined) console.warn(`Ignoring invalid setting ${key}:`, data[key]);
+        else settings[key] = value;
+    });
+    return settings;
+}
+
+/** The scene-look subset of `settings`, e.g. to store as a preset. */
+export function pickSceneSettings(settings: Readonly<SceneSettings>): SceneSettings {
+    return Object.fromEntries(SCENE_SETTING_KEYS.map((key) => [key, settings[key]])) as SceneSettings;
+}
+
+/**
+ * Validate a preset read from storage, a file or a link. Settings it leaves out or gets
+ * wrong take their defaults; a version 1 `darkMode` becomes its theme.
+ * @returns the preset, or undefined without a name or settings object
+ */
+export function parseScenePreset(value: unknown): ScenePreset | undefined {
+    const data = asObject(value);
+    const fields = asObject(data?.settings);
+    if (!data || !fields || typeof data.name !== 'string' || data.name.trim().length === 0) return undefined;
+    return { name: data.name.trim(), settings: pickSceneSettings(sanitize(withTheme(fields), DEFAULT_SETTINGS)) };
+}
+
+/** Upgrade persisted data from `version` to `SETTINGS_VERSION`. */
+function migrate(data: StoredData, version: number): StoredData {
+    let migrated = data;
+    for (let from = version; from < SETTINGS_VERSION; from++) {
+        const step = MIGRATIONS[from];
+        if (!step) throw new Error(`No settings migration from version ${from}`);
+        migrated = step(migrated);
+    }
+    return migrated;
+}
+
+const parseObject = (json: string | null): StoredData | null => (json ? asObject(JSON.parse(json)) : null);
+
+/**
+ * Read settings saved under `key`, falling back to what older versions left in
+ * sessionStorage, then to the defaults.
+ */
+function readSettings(storage: Storage, key: string): Settings {
+    try {
+        const stored = parseObject(storage.getItem(key));
+        if (stored) {
+            const version = typeof stored.version === 'number' ? stored.version : 0;
+            if (version > SETTINGS_VERSION) {
+                console.warn(`Settings were saved by a newer version (${version}); keeping the fields this version understands`);
+            }
+            const data = version === 0 ? stored : asObject(stored.settings) ?? {};
+            return sanitize(migrate(data, version), DEFAULT_SETTINGS);
+        }
+
+        const legacy = parseObject(sessionStorage.getItem('settings')) ?? {};
+        return sanitize(migrate(legacy, 0), DEFAULT_SETTINGS);
+    } catch (error) {
+        console.warn('Ignoring unreadable settings', error);
+        return { ...DEFAULT_SETTINGS };
+    }
+}
+
+/**
+ * Options for the settings store.
+ * @property {Storage} [storage] Where settings persist (defaults to `localStorage`).
+ * @property {string} [key] Storage key (defaults to `settings`).
+ * @property {number} [saveDelayMs] Changes are written this long after the last one, so dragging a slider writes once.
+ */
+export type SettingsStoreOptions = {
+    storage?: Storage;
+    key?: string;
+    saveDelayMs?: number;
+};
+
+/**
+ * Typed, validated settings shared by the scene and the settings panel. Changes made
+ * with `set` notify subscribers and are saved automatically, versioned so older saves
+ * can be migrated.
+ *
+ * @example
+ * ```ts
+ * const settings = createSettingsStore();
+ * settings.subscribe((next, previous) => {
+ *     if (next.speed !== previous.speed) setSpeed(next.speed);
+ * });
+ * settings.set({ speed: 120 });
+ * ```
+ */
+export function createSettingsStore(options: SettingsStoreOptions = {}) {
+    const storage = options.storage ?? localStorage;
+    const key = options.key ?? 'settings';
+    const saveDelayMs = options.saveDelayMs ?? 250;
+    const listeners = new Set<SettingsListener>();
+    let current = readSettings(storage, key);
+    let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const save = () => {
+        clearTimeout(saveTimer);
+        saveTimer = undefined;
+        try {
+            storage.setItem(key, JSON.stringify({ version: SETTINGS_VERSION, settings: current }));
+        } catch (error) {
+            console.warn('Unable to save settings', error);
+        }
+    };
+
+    const commit = (next: Settings) => {
+        const previous = current;
+        if (SETTING_KEYS.every((name) => JSON.stringify(next[name]) === JSON.stringify(previous[name]))) return;
+        current = next;
+        clearTimeout(saveTimer);
+        saveTimer = setTimeout(save, saveDelayMs);
+        listeners.forEach((listener) => listener(current, previous));
+    };
+
+    /** Change some settings; invalid values are ignored with a warning. */
+    const set = (patch: Partial<Settings>) => commit(sanitize(patch, current));
+
+    const reset = () => commit({ ...DEFAULT_SETTINGS });
+
+    /**
+     * Listen for changes; the listener gets the new and the previous settings.
+     * @returns a function that removes the listener
+     */
+    const subscribe = (listener: SettingsListener) => {
+        listeners.add(listener);
+        return () => { listeners.delete(listener); };
+    };
+
+    /** Write a pending change now instead of after `saveDelayMs`. */
+    const flush = () => {
+        if (saveTimer !== undefined) save();
+    };
+    window.addEventListener('pagehide', flush);
+
+    const dispose = () => {
+        flush();
+        window.removeEventListener('pagehide', flush);
+        listeners.clear();
+    };
+
+    return {
+        get: (): Readonly<Settings> => current,
+        set,
+        reset,
+        subscribe,
+        flush,
+        dispose,
+    };
+}
+
+export type SettingsStore = ReturnType<typeof createSettingsStore>;
@@ -0,0 +1,268 @@
+import type { SettingsHistory } from './settingsHistory';
+import type { SceneSettings, SettingsStore } from './settingsStore';
+import { DEFAULT_PAGE_PALETTE, type PagePalette } from './worldPages';
+
+export const THEME_NAMES = ['dark', 'light', 'dusk'] as const;
+
+export type ThemeName = typeof THEME_NAMES[number];
+
+/** A theme name, or `auto` to follow the system's `prefers-color-scheme`. */
+export type ThemeSetting = ThemeName | 'auto';
+
+/**
+ * Everything a theme colours. `scene` holds the defaults for the scene settings (the
+ * user may still change them); `ui` becomes `--theme-*` CSS custom properties for the
+ * HUD, panel, nav bar and timeline; `page` is the palette world pages are drawn with.
+ * @property {'dark' | 'light'} colorScheme Used for native controls and for picking the opposite theme.
+ */
+export type Theme = {
+    name: ThemeName;
+    label: string;
+    colorScheme: 'dark' | 'light';
+    scene: {
+        gradientStart: string;
+        gradientEnd: string;
+        directionalLight: string;
+        ambientLight: string;
+        fog: string;
+        material: string;
+    };
+    ui: {
+        text: string;
+        textMuted: string;
+        surface: string;
+        surfaceTranslucent: string;
+        hudBackground: string;
+        border: string;
+        control: string;
+        controlHover: string;
+        accent: string;
+    };
+    page: PagePalette;
+};
+
+export const THEMES: Readonly<Record<ThemeName, Theme>> = {
+    dark: {
+        name: 'dark',
+        label: 'Dark',
+        colorScheme: 'dark',
+        scene: {
+            gradientStart: '#010003',
+            gradientEnd: '#000000',
+            directionalLight: '#0d00ff',
+            ambientLight: '#ffffff',
+            fog: '#000000',
+            material: '#000000',
+        },
+        ui: {
+            text: '#ffffff',
+            textMuted: 'rgba(255, 255, 255, 0.75)',
+            surface: 'rgba(12, 12, 20, 0.88)',
+            surfaceTranslucent: 'rgba(12, 12, 20, 0.55)',
+            hudBackground: 'rgba(0, 0, 0, 0.35)',
+            border: 'rgba(255, 255, 255, 0.25)',
+            control: 'rgba(255, 255, 255, 0.1)',
+            controlHover: 'rgba(255, 255, 255, 0.2)',
+            accent: '#ffcc00',
+        },
+        page: DEFAULT_PAGE_PALETTE,
+    },
+    light: {
+        name: 'light',
+        label: 'Light',
+        colorScheme: 'light',
+        scene: {
+            gradientStart: '#e0e7ff',
+            gradientEnd: '#ffffff',
+            directionalLight: '#87cefa',
+            ambientLight: '#ffffff',
+            fog: '#ffffff',
+            material: '#ffffff',
+        },
+        ui: {
+            text: '#1a1a24',
+            textMuted: 'rgba(26, 26, 36, 0.7)',
+            surface: 'rgba(250, 250, 255, 0.9)',
+            surfaceTranslucent: 'rgba(250, 250, 255, 0.6)',
+            hudBackground: 'rgba(255, 255, 255, 0.55)',
+            border: 'rgba(26, 26, 36, 0.2)',
+            control: 'rgba(26, 26, 36, 0.06)',
+            controlHover: 'rgba(26, 26, 36, 0.14)',
+            accent: '#d97706',
+        },
+        page: {
+            background: 'rgba(250, 250, 255, 0.92)',
+            text: '#1a1a24',
+            link: '#0b61c4',
+            inlineCode: '#9a3412',
+            inlineCodeBackground: 'rgba(26, 26, 36, 0.08)',
+            codeText: '#24292f',
+            codeBackground: 'rgba(26, 26, 36, 0.06)',
+            placeholder: 'rgba(26, 26, 36, 0.45)',
+            scrollbar: 'rgba(26, 26, 36, 0.3)',
+        },
+    },
+    dusk: {
+        name: 'dusk',
+        label: 'Dusk',
+        colorScheme: 'dark',
+        scene: {
+            gradientStart: '#ff9a5a',
+            gradientEnd: '#2d1b4e',
+            directionalLight: '#ffb347',
+            ambientLight: '#ffd9b3',
+            fog: '#2d1b4e',
+            material: '#3a1c32',
+        },
+        ui: {
+            text: '#fff4e8',
+            textMuted: 'rgba(255, 244, 232, 0.72)',
+            surface: 'rgba(45, 27, 78, 0.9)',
+            surfaceTranslucent: 'rgba(45, 27, 78, 0.6)',
+            hudBackground: 'rgba(45, 27, 78, 0.45)',
+            border: 'rgba(255, 179, 71, 0.35)',
+            control: 'rgba(255, 179, 71, 0.12)',
+            controlHover: 'rgba(255, 179, 71, 0.25)',
+            accent: '#ffb347',
+        },
+        page: {
+            background: 'rgba(45, 27, 78, 0.88)',
+            text: '#fff4e8',
+            link: '#ffc98a',
+            inlineCode: '#ffd580',
+            inlineCodeBackground: 'rgba(255, 179, 71, 0.15)',
+            codeText: '#f3e6ff',
+            codeBackground: 'rgba(255, 255, 255, 0.08)',
+            placeholder: 'rgba(255, 244, 232, 0.5)',
+            scrollbar: 'rgba(255, 179, 71, 0.45)',
+        },
+    },
+};
+
+const lightQuery = () => window.matchMedia('(prefers-color-scheme: light)');
+
+/** The theme a setting stands for; `auto` picks light or dark from the system preference. */
+export function resolveTheme(setting: ThemeSetting): Theme {
+    if (setting !== 'auto') return THEMES[setting];
+    return lightQuery().matches ? THEMES.light : THEMES.dark;
+}
+
+/** The scene settings a theme's scene colours stand for, as stored in settings and presets. */
+export function themeSceneSettings(theme: Theme): Pick<SceneSettings, 'startColor' | 'endColor' | 'lightColor' | 'materialColor'> {
+    return {
+        startColor: theme.scene.gradientStart,
+        endColor: theme.scene.gradientEnd,
+        lightColor: theme.scene.directionalLight,
+        materialColor: theme.scene.material,
+    };
+}
+
+const usesThemeColors = (settings: Readonly<SceneSettings>, theme: Theme) =>
+    Object.entries(themeSceneSettings(theme)).every(([key, value]) => settings[key as keyof SceneSettings] === value);
+
+/**
+ * Expose a theme's UI colours to CSS as `--theme-<token>` custom properties on the root
+ * element (e.g. `--theme-text-muted`), and set `data-theme` and `color-scheme` there.
+ */
+export function applyThemeToDocument(theme: Theme, root: HTMLElement = document.documentElement) {
+    Object.entries(theme.ui).forEach(([token, value]) => {
+        root.style.setProperty(`--theme-${token.replace(/[A-Z]/g, (c) => `-${c.toLowerCase()}`)}`, value);
+    });
+    root.dataset.theme = theme.name;
+    root.style.colorScheme = theme.colorScheme;
+}
+
+/**
+ * Keeps the active theme in step with `settings.theme` and, for `auto`, with the system
+ * colour scheme. `onTheme` runs with the resolved theme at start and whenever it changes.
+ * Under `auto`, a scene still showing a theme's own colours adopts the new theme's colours;
+ * colours the user picked are left alone.
+ *
+ * @example
+ * ```ts
+ * const themes = createThemeController(settings, (theme) => applyThemeToDocument(theme));
+ * themes.select('light');
+ * ```
+ */
+export function createThemeController(settings: SettingsStore, onTheme: (theme: Theme) => void) {
+    let theme = resolveTheme(settings.get().theme);
+
+    const adoptColorsIfUntouched = () => {
+        const current = settings.get();
+        if (current.theme !== 'auto' || usesThemeColors(current, theme)) return;
+        if (THEME_NAMES.some((name) => usesThemeColors(current, THEMES[name]))) settings.set(themeSceneSettings(theme));
+    };
+
+    const update = () => {
+        const next = resolveTheme(settings.get().theme);
+        if (next === theme) return;
+        theme = next;
+        adoptColorsIfUntouched();
+        onTheme(theme);
+    };
+
+    /** Switch theme; picking a named theme also adopts its scene colours. */
+    const select = (setting: ThemeSetting) => {
+        settings.set({ theme: setting, ...themeSceneSettings(resolveTheme(setting)) });
+    };
+
+    const unsubscribe = settings.subscribe(update);
+    const query = lightQuery();
+    query.addEventListener('change', update);
+
+    adoptColorsIfUntouched();
+    onTheme(theme);
+
+    const dispose = () => {
+        unsubscribe();
+        query.removeEventListener('change', update);
+    };
+
+    return {
+        get theme(): Theme {
+            return theme;
+        },
+        select,
+        dispose,
+    };
+}
+
+export type ThemeController = ReturnType<typeof createThemeController>;
+
+/**
+ * Settings-panel section with one button per theme plus Auto; the active one is pressed.
+ * With a `history`, switching theme can be undone.
+ */
+export function createThemePicker(settings: SettingsStore, themes: ThemeController, history?: SettingsHistory): HTMLElement {
+    const section = document.createElement('p');
+    section.className = 'hud-panel__actions';
+    section.setAttribute('role', 'group');
+    section.setAttribute('aria-label', 'Theme');
+
+    const choices: Array<{ setting: ThemeSetting; label: string }> = [
+        { setting: 'auto', label: 'Auto' },
+        ...THEME_NAMES.map((name) => ({ setting: name, label: THEMES[name].label })),
+    ];
+    const buttons = choices.map(({ setting, label }) => {
+        const button = document.createElement('button');
+        button.type = 'button';
+        button.className = 'hud-panel__action';
+        button.textContent = label;
+        button.addEventListener('click', () => {
+            if (history) history.record(() => themes.select(setting));
+            else themes.select(setting);
+        });
+        return { setting, button };
+    });
+
+    const render = () => {
+        const current = settings.get().theme;
+        buttons.forEach(({ setting, button }) => button.setAttribute('aria-pressed', String(setting === current)));
+    };
+
+    settings.subscribe(render);
+    render();
+
+    section.append(...buttons.map(({ button }) => button));
+    return section;
+}
@@ -0,0 +1,294 @@
+import type { Topic, TopicRouter } from './TopicRouter';
+
+/** How long to wait for another digit before jumping to a typed topic number. */
+const DIGIT_TIMEOUT_MS = 800;
+const MAX_RESULTS = 6;
+
+/**
+ * Order topics by how well they match a jump query. A number matches topic numbers
+ * starting with it (`1` → 1, 10, 11, …); anything else is fuzzy-matched against titles
+ * and ids, best match first. An empty query keeps every topic in deck order.
+ * @returns topic indexes, best match first
+ */
+export function rankTopics(topics: readonly Topic[], query: string): number[] {
+    const q = query.trim().toLowerCase();
+    const indexes = topics.map((_, i) => i);
+    if (q.length === 0) return indexes;
+    if (/^\d+$/.test(q)) return indexes.filter((i) => String(i + 1).startsWith(q));
+
+    return indexes
+        .map((i) => ({ i, score: Math.max(fuzzyScore(topics[i].title, q), fuzzyScore(topics[i].id, q)) }))
+        .filter(({ score }) => score > Number.NEGATIVE_INFINITY)
+        .sort((a, b) => b.score - a.score || a.i - b.i)
+        .map(({ i }) => i);
+}
+
+/**
+ * Score `text` for the lowercase `query` as a subsequence: consecutive characters and
+ * word starts score higher, skipped characters lower. -Infinity when it doesn't match.
+ */
+function fuzzyScore(text: string, query: string): number {
+    const haystack = text.toLowerCase();
+    let score = haystack.includes(query) ? query.length : 0;
+    let from = 0;
+    let previous = -2;
+    for (const char of query) {
+        if (char === ' ') continue;
+        const at = haystack.indexOf(char, from);
+        if (at === -1) return Number.NEGATIVE_INFINITY;
+        score += 1;
+        if (at === previous + 1) score += 2;
+        if (at === 0 || /[\s\-_:.]/.test(haystack[at - 1])) score += 3;
+        score -= Math.min(at - from, 5) * 0.1;
+        previous = at;
+        from = at + 1;
+    }
+    return score;
+}
+
+/**
+ * Timeline along the top of the screen: one tick per topic (hover for its title) and a
+ * thumb following the camera. Dragging scrubs the camera along the path between topics
+ * via `router.scrubTo`; releasing snaps to the nearest topic. Also handles jumping by
+ * topic number (`typeDigit`, so 12 works) or by fuzzy title search (`openSearch`).
+ *
+ * @example
+ * ```ts
+ * const timeline = createTimeline(router);
+ * window.addEventListener('keydown', (e) => {
+ *     if (/^\d$/.test(e.key)) timeline.typeDigit(e.key);
+ *     if (e.key === '/') { e.preventDefault(); timeline.openSearch(); }
+ * });
+ * ```
+ */
+export function createTimeline(router: TopicRouter, host: HTMLElement = document.body) {
+    // Not divs: the global div style would turn each part into its own glass card.
+    const root = document.createElement('nav');
+    root.className = 'timeline';
+    root.setAttribute('aria-label', 'Topic timeline');
+
+    const track = document.createElement('span');
+    track.className = 'timeline__track';
+    track.setAttribute('role', 'slider');
+    track.setAttribute('aria-label', 'Topic');
+    const fill = document.createElement('span');
+    fill.className = 'timeline__fill';
+    const ticks = document.createElement('span');
+    ticks.className = 'timeline__ticks';
+    const thumb = document.createElement('span');
+    thumb.className = 'timeline__thumb';
+    track.append(fill, ticks, thumb);
+
+    const tooltip = document.createElement('span');
+    tooltip.className = 'timeline__tooltip';
+    tooltip.hidden = true;
+
+    const search = document.createElement('form');
+    search.className = 'timeline__search';
+    search.hidden = true;
+    const input = document.createElement('input');
+    input.type = 'search';
+    input.placeholder = 'Topic number or title';
+    input.setAttribute('aria-label', 'Jump to topic');
+    const results = document.createElement('ol');
+    results.className = 'timeline__results';
+    search.append(input, results);
+
+    root.append(track, tooltip, search);
+    host.appendChild(root);
+
+    let signature = '';
+    let shownPosition = 0;
+    let transitionFrom = 0;
+    let dragging = false;
+    let digits = '';
+    let digitTimer: ReturnType<typeof setTimeout> | undefined;
+    let matches: number[] = [];
+    let selected = 0;
+
+    const fractionOf = (position: number) => {
+        const last = router.topicList.length - 1;
+        return last > 0 ? position / last : 0;
+    };
+
+    const label = (index: number) => `${index + 1}. ${router.topicList[index].title}`;
+
+    /** Rebuild the ticks when topics were added, removed or renamed. */
+    const render = () => {
+        const topics = router.topicList;
+        const next = topics.map(({ id, title }) => `${id}\u0000${title}`).join('\u0001');
+        if (next !== signature) {
+            signature = next;
+            ticks.replaceChildren(...topics.map((_, i) => {
+                const tick = document.createElement('span');
+                tick.className = 'timeline__tick';
+                tick.style.left = `${fractionOf(i) * 100}%`;
+                return tick;
+            }));
+            track.setAttribute('aria-valuemin', '1');
+            track.setAttribute('aria-valuemax', String(topics.length));
+        }
+        root.hidden = topics.length === 0;
+        Array.from(ticks.children).forEach((tick, i) => tick.classList.toggle('timeline__tick--current', i === router.currentIndex));
+    };
+
+    const setPosition = (position: number) => {
+        shownPosition = position;
+        const percent = `${fractionOf(position) * 100}%`;
+        fill.style.width = percent;
+        thumb.style.left = percent;
+        const nearest = Math.round(position);
+        if (router.topicList[nearest]) {
+            track.setAttribute('aria-valuenow', String(nearest + 1));
+            track.setAttribute('aria-valuetext', label(nearest));
+        }
+    };
+
+    const showTooltip = (index: number) => {
+        if (!router.topicList[index]) return;
+        tooltip.textContent = label(index);
+        tooltip.style.left = `${fractionOf(index) * 100}%`;
+        tooltip.hidden = false;
+    };
+
+    const hideTooltip = () => {
+        tooltip.hidden = true;
+    };
+
+    const positionAt = (clientX: number) => {
+        const rect = track.getBoundingClientRect();
+        const fraction = rect.width > 0 ? Math.min(Math.max((clientX - rect.left) / rect.width, 0), 1) : 0;
+        return fraction * Math.max(router.topicList.length - 1, 0);
+    };
+
+    track.addEventListener('pointerdown', (event) => {
+        if (router.topicList.length === 0) return;
+        event.preventDefault();
+        dragging = true;
+        track.setPointerCapture(event.pointerId);
+        router.scrubTo(positionAt(event.clientX));
+    });
+    track.addEventListener('pointermove', (event) => {
+        const position = positionAt(event.clientX);
+        showTooltip(Math.round(position));
+        if (dragging) router.scrubTo(position);
+    });
+    const release = () => {
+        if (!dragging) return;
+        dragging = false;
+        hideTooltip();
+        router.endScrub();
+    };
+    track.addEventListener('pointerup', release);
+    track.addEventListener('pointercancel', release);
+    track.addEventListener('pointerleave', () => {
+        if (!dragging) hideTooltip();
+    });
+
+    const offTransition = router.on('transitionstart', () => {
+        render();
+        transitionFrom = shownPosition;
+    });
+    const offProgress = router.on('transitionprogress', ({ index, eased }) => {
+        setPosition(transitionFrom + (index - transitionFrom) * eased);
+    });
+    const offScrub = router.on('scrub', ({ position }) => setPosition(position));
+
+    const jumpToTyped = () => {
+        clearTimeout(digitTimer);
+        const n = Number(digits);
+        digits = '';
+        hideTooltip();
+        if (n >= 1 && n <= router.topicList.length) router.goTo(n - 1);
+    };
+
+    /**
+     * Feed one typed digit. Jumps as soon as no further digit could name a topic (e.g.
+     * `3` in a 12-topic deck), otherwise after a short pause, so `1` then `2` reaches topic 12.
+     */
+    const typeDigit = (digit: string) => {
+        digits += digit;
+        clearTimeout(digitTimer);
+        if (Number(digits) * 10 > router.topicList.length) {
+            jumpToTyped();
+            return;
+        }
+        showTooltip(Number(digits) - 1);
+        digitTimer = setTimeout(jumpToTyped, DIGIT_TIMEOUT_MS);
+    };
+
+    const closeSearch = () => {
+        if (search.hidden) return;
+        search.hidden = true;
+        input.blur();
+    };
+
+    const choose = (index: number) => {
+        closeSearch();
+        router.goTo(index);
+    };
+
+    const renderResults = () => {
+        matches = rankTopics(router.topicList, input.value).slice(0, MAX_RESULTS);
+        selected = Math.min(selected, Math.max(matches.length - 1, 0));
+        if (matches.length === 0) {
+            const empty = document.createElement('li');
+            empty.className = 'timeline__result timeline__result--empty';
+            empty.textContent = 'No matching topic';
+            results.replaceChildren(empty);
+            return;
+        }
+        results.replaceChildren(...matches.map((index, i) => {
+            const item = document.createElement('li');
+            item.className = 'timeline__result';
+            item.setAttribute('aria-selected', String(i === selected));
+            item.textContent = label(index);
+            // pointerdown rather than click: the input would blur and close the list first.
+            item.addEventListener('pointerdown', (event) => {
+                event.preventDefault();
+                choose(index);
+            });
+            return item;
+        }));
+    };
+
+    const openSearch = () => {
+        if (router.topicList.length === 0) return;
+        search.hidden = false;
+        input.value = '';
+        selected = 0;
+        renderResults();
+        input.focus();
+    };
+
+    input.addEventListener('input', () => {
+        selected = 0;
+        renderResults();
+    });
+    input.addEventListener('keydown', (event) => {
+        if (event.key === 'ArrowDown' || event.key === 'ArrowUp') {
+            event.preventDefault();
+            const step = event.key === 'ArrowDown' ? 1 : -1;
+            selected = (selected + step + matches.length) % Math.max(matches.length, 1);
+            renderResults();
+        }
+        if (event.key === 'Escape') closeSearch();
+    });
+    input.addEventListener('blur', closeSearch);
+    search.addEventListener('submit', (event) => {
+        event.preventDefault();
+        if (matches.length > 0) choose(matches[selected]);
+    });
+
+    const dispose = () => {
+        clearTimeout(digitTimer);
+        offTransition();
+        offProgress();
+        offScrub();
+        root.remove();
+    };
+
+    render();
+    setPosition(router.currentIndex);
+    return { typeDigit, openSearch, closeSearch, dispose };
+}
@@ -0,0 +1,54 @@
+import { formatDiagnostic, type TopicParseError } from './topicParser';
+
+/**
+ * Overlay listing topic parse errors on top of the scene, so a broken topic file shows
+ * what to fix instead of a blank page. Hidden until `show` is called; the deck keeps
+ * running underneath with the last topics that parsed.
+ */
+export function createTopicErrorOverlay() {
+    const overlay = document.createElement('div');
+    overlay.id = 'topic-error-overlay';
+    overlay.setAttribute('role', 'alert');
+    overlay.style.position = 'fixed';
+    overlay.style.inset = '0';
+    overlay.style.zIndex = '1000';
+    overlay.style.overflow = 'auto';
+    overlay.style.padding = '32px 40px';
+    overlay.style.background = 'rgba(20, 0, 0, 0.85)';
+    overlay.style.color = '#ffb3b3';
+    overlay.style.fontFamily = 'ui-monospace, SFMono-Regular, Menlo, monospace';
+    overlay.style.fontSize = '14px';
+    overlay.style.lineHeight = '1.5';
+    overlay.style.display = 'none';
+
+    const heading = document.createElement('h2');
+    heading.style.margin = '0 0 16px';
+    heading.style.color = '#ff6b6b';
+    heading.style.fontFamily = 'system-ui, sans-serif';
+
+    const list = document.createElement('pre');
+    list.style.margin = '0';
+    list.style.whiteSpace = 'pre-wrap';
+
+    const hint = document.createElement('p');
+    hint.style.marginTop = '24px';
+    hint.style.color = 'rgba(255, 255, 255, 0.6)';
+    hint.style.fontFamily = 'system-ui, sans-serif';
+    hint.textContent = 'Fix the topic file and save; the deck updates without a reload.';
+
+    overlay.append(heading, list, hint);
+    document.body.appendChild(overlay);
+
+    const show = (error: TopicParseError) => {
+        const count = error.diagnostics.length;
+        heading.textContent = `Topic files failed to parse (${count} error${count === 1 ? '' : 's'})`;
+        list.textContent = error.diagnostics.map(formatDiagnostic).join('\n');
+        overlay.style.display = 'block';
+    };
+
+    const hide = () => {
+        overlay.style.display = 'none';
+    };
+
+    return { show, hide };
+}
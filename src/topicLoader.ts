@@ -1,31 +1,12 @@
 import * as THREE from 'three';
 import type { Vector3Tuple } from 'three';
 import type { Topic } from './TopicRouter';
+import type { SceneActionRegistry } from './sceneActions';
+import { renderMarkdown } from './markdown';
+import { sanitizeHtml } from './sanitizeHtml';
+import { formatDiagnostic, lintTopicSet, parseTopicSource, TopicParseError, type ParsedTopic, type TopicDiagnostic, type TopicFrontmatter } from './topicParser';
 
-/**
- * Shape of the metadata block each topic file must provide.
- * Position/LookAt arrays are expressed as JSON to keep parsing deterministic.
- *
- * @interface TopicFrontmatter
- * @property {string} id Unique identifier used by the router.
- * @property {string} title Human-readable title for navigation/HUD copy.
- * @property {Vector3Tuple} position Camera destination in world space.
- * @property {Vector3Tuple} [lookAt] Optional vector the camera should face.
- * @property {Vector3Tuple} [pagePosition] Optional override for where the topic page should live in the scene.
- * @property {string} [anchorId] Optional scene anchor name for dynamic placement.
- * @property {string} [hud] Multiline HTML/markup rendered inside the HUD overlay.
- * @property {number} [order] Sorting hint when filenames are not strictly ordered.
- */
-export interface TopicFrontmatter {
-    id: string;
-    title: string;
-    position: Vector3Tuple;
-    lookAt?: Vector3Tuple;
-    pagePosition?: Vector3Tuple;
-    anchorId?: string;
-    hud?: string;
-    order?: number;
-}
+export type { TopicFrontmatter } from './topicParser';
 
 /**
  * Minimal interface describing the HUD surface we update when topics change.
@@ -35,14 +16,6 @@ interface Hud {
     set: (html: string) => void;
 }
 
-/**
- * Parsed representation of a topic file, separating frontmatter metadata from HTML content.
- */
-interface ParsedTopic {
-    frontmatter: TopicFrontmatter;
-    content: string;
-}
-
 export type RenderPagePayload = {
     id: string;
     title: string;
@@ -56,8 +29,8 @@ export interface LoadedTopicBundle {
     pages: RenderPagePayload[];
 }
 
-/** Pre-import every topic HTML file so the data is available without extra fetches. */
-const topicModules = import.meta.glob('./topics/*.html', {
+/** Pre-import every topic file (HTML or Markdown) so the data is available without extra fetches. */
+const topicModules = import.meta.glob(['./topics/*.html', './topics/*.md'], {
     eager: true,
     query: '?raw',
     import: 'default',
@@ -65,10 +38,13 @@ const topicModules = import.meta.glob('./topics/*.html', {
 
 /**
  * Load every frontmatter-backed topic file under `src/topics` and materialize
- * them into `Topic` instances wired up with HUD callbacks.
+ * them into `Topic` instances wired up with HUD callbacks. Markdown bodies (`.md` files)
+ * and Markdown `hud` blocks are converted to HTML here.
  *
  * @param hud HUD instance used to render topic copy on entry.
+ * @param sceneActions Optional registry that applies each topic's `actions` on enter and reverts them on leave.
  * @returns Sorted bundle containing Topics for the router and page payloads for world rendering.
+ * @throws {TopicParseError} listing the problems of every broken topic file.
  *
  * @example
  * ```ts
@@ -78,209 +54,284 @@ const topicModules = import.meta.glob('./topics/*.html', {
  * pages.forEach(page => worldPageManager.register(page));
  * ```
  */
-export function loadTopics(hud: Hud): LoadedTopicBundle {
-    const parsedTopics = Object.entries(topicModules).map(([path, raw]) => parseTopicFile(path, raw));
+export function loadTopics(hud: Hud, sceneActions?: SceneActionRegistry): LoadedTopicBundle {
+    return buildTopicBundle(parseTopicModules(topicModules), hud, sceneActions);
+}
 
-    parsedTopics.sort((a, b) => {
-        const orderA = a.frontmatter.order ?? Number.POSITIVE_INFINITY;
-        const orderB = b.frontmatter.order ?? Number.POSITIVE_INFINITY;
-        if (orderA !== orderB) return orderA - orderB;
-        return a.frontmatter.title.localeCompare(b.frontmatter.title);
-    });
+/**
+ * Callbacks for {@link watchTopics}. `onUpdate` receives the complete, freshly built bundle;
+ * `onError` the parse failure that kept it from being built.
+ */
+export interface TopicWatchHandlers {
+    onUpdate: (bundle: LoadedTopicBundle) => void;
+    onError: (error: TopicParseError) => void;
+}
 
-    const topics: Topic[] = [];
-    const pages: RenderPagePayload[] = [];
+type TopicModulesListener = (modules: Record<string, string>) => void;
 
-    parsedTopics.forEach(({ frontmatter, content }) => {
-        const hudMarkup = frontmatter.hud ? formatHudMarkup(frontmatter.hud) : undefined;
+/**
+ * Watchers of hot-reloaded topic sources. Stored in `import.meta.hot.data` so they survive
+ * this module being re-executed when a topic file is edited, added or removed.
+ */
+const hotListeners: Set<TopicModulesListener> = import.meta.hot?.data.topicListeners ?? new Set();
+
+if (import.meta.hot) {
+    import.meta.hot.data.topicListeners = hotListeners;
+    // Topic files are dependencies of this module, so re-running it is the update itself:
+    // hand the fresh sources to the watchers registered by the previous instance.
+    hotListeners.forEach((listener) => listener(topicModules));
+    import.meta.hot.accept();
+}
 
-        topics.push({
-            id: frontmatter.id,
-            title: frontmatter.title,
-            position: toVector3(frontmatter.position),
-            lookAt: frontmatter.lookAt ? toVector3(frontmatter.lookAt) : undefined,
-            onEnter: () => hud.set(hudMarkup ?? ''),
-        });
+/**
+ * Rebuild the topic bundle whenever topic files change during development (Vite HMR)
+ * instead of reloading the page. A no-op in production builds.
+ *
+ * @param hud HUD passed to the rebuilt topics.
+ * @param sceneActions Registry passed to the rebuilt topics.
+ * @param handlers Receive each rebuilt bundle, or the parse error when a file is broken.
+ * @returns Function that stops watching.
+ *
+ * @example
+ * ```ts
+ * watchTopics(hud, sceneActions, {
+ *     onUpdate: ({ topics }) => router.replaceTopics(topics),
+ *     onError: (error) => console.error(error.message),
+ * });
+ * ```
+ */
+export function watchTopics(hud: Hud, sceneActions: SceneActionRegistry | undefined, handlers: TopicWatchHandlers): () => void {
+    if (!import.meta.hot) return () => {};
 
-        const fallbackTuple = frontmatter.pagePosition ?? frontmatter.lookAt ?? frontmatter.position;
-        pages.push({
-            id: frontmatter.id,
-            title: frontmatter.title,
-            content,
-            fallbackTarget: toVector3(fallbackTuple),
-            anchorId: frontmatter.anchorId,
-        });
-    });
+    const listener: TopicModulesListener = (modules) => {
+        let bundle: LoadedTopicBundle;
+        try {
+            bundle = buildTopicBundle(parseTopicModules(modules), hud, sceneActions);
+        } catch (error) {
+            if (error instanceof TopicParseError) {
+                handlers.onError(error);
+                return;
+            }
+            throw error;
+        }
+        handlers.onUpdate(bundle);
+    };
 
-    return { topics, pages };
+    hotListeners.add(listener);
+    return () => { hotListeners.delete(listener); };
 }
 
 /**
- * Split a raw topic file into frontmatter and HTML content, validating that
- * both opening and closing delimiters exist.
+ * A topic listed in a deck manifest: fetched from `url`, or given inline as `source`
+ * with `path` naming it in diagnostics (its extension picks HTML or Markdown).
+ */
+type DeckEntry = { path: string; url?: URL; source?: string };
+
+/**
+ * Load a deck at runtime instead of the topic files bundled at build time, so one hosted
+ * viewer can present any deck (e.g. `?deck=https://example.com/talk/deck.json`).
+ *
+ * The manifest is either JSON — an array, or `{ "topics": [...] }`, whose entries are topic
+ * file URLs or inline `{ "path": "intro.md", "source": "---\n..." }` objects — or plain
+ * text with one topic file URL per line (`#` starts a comment). Relative URLs resolve
+ * against the manifest. Topics without an `order` keep their manifest position.
+ * The HUD shows loading progress and, on failure, what went wrong. A deck can come from
+ * anywhere, so its topic markup is passed through {@link sanitizeHtml}: scripts, event
+ * handlers and `javascript:` links are removed before anything reaches the page.
+ *
+ * @param manifestUrl Manifest URL, absolute or relative to the page.
+ * @param hud HUD used for loading/error states and, afterwards, topic copy.
+ * @param sceneActions Optional registry that applies each topic's `actions` on enter and reverts them on leave.
+ * @returns The same bundle {@link loadTopics} produces.
+ * @throws {TopicParseError} when a topic file is broken; other errors for network or manifest problems.
  *
- * @param path Module path reported by `import.meta.glob`.
- * @param raw Raw file contents returned by Vite.
- * @returns ParsedTopic with metadata and HTML body.
+ * @example
+ * ```ts
+ * const deck = new URLSearchParams(location.search).get('deck');
+ * if (deck) loadRemoteTopics(deck, hud).then(({ topics }) => router.replaceTopics(topics));
+ * ```
  */
-function parseTopicFile(path: string, raw: string): ParsedTopic {
-    const trimmed = raw.trimStart();
-    if (!trimmed.startsWith('---')) {
-        throw new Error(`Topic file ${path} is missing frontmatter delimiter`);
+export async function loadRemoteTopics(manifestUrl: string, hud: Hud, sceneActions?: SceneActionRegistry): Promise<LoadedTopicBundle> {
+    const url = new URL(manifestUrl, window.location.href);
+    hud.set(formatDeckStatus('Loading deck…', url.href));
+
+    try {
+        const entries = parseDeckManifest(await fetchText(url), url);
+        hud.set(formatDeckStatus(`Loading ${entries.length} topic${entries.length === 1 ? '' : 's'}…`, url.href));
+
+        const sources = await Promise.all(entries.map(async ({ path, url: entryUrl, source }) => (
+            [path, source ?? await fetchText(entryUrl!)] as const
+        )));
+        const bundle = buildTopicBundle(parseTopicModules(Object.fromEntries(sources)), hud, sceneActions, true);
+        hud.set('');
+        return bundle;
+    } catch (error) {
+        hud.set(formatDeckError(url.href, error));
+        throw error;
     }
+}
 
-    const lines = trimmed.split(/\r?\n/);
-    const closingIndex = lines.indexOf('---', 1);
-    if (closingIndex === -1) {
-        throw new Error(`Topic file ${path} is missing closing frontmatter delimiter`);
+async function fetchText(url: URL): Promise<string> {
+    let response: Response;
+    try {
+        response = await fetch(url);
+    } catch (error) {
+        throw new Error(`Deck file ${url.href} could not be fetched: ${error instanceof Error ? error.message : String(error)}`);
     }
-
-    const frontmatterLines = lines.slice(1, closingIndex);
-    const contentLines = lines.slice(closingIndex + 1);
-
-    const frontmatter = parseFrontmatter(frontmatterLines, path);
-    validateFrontmatter(frontmatter, path);
-    const content = contentLines.join('\n').trim();
-
-    return { frontmatter, content };
+    if (!response.ok) {
+        throw new Error(`Deck file ${url.href} could not be loaded (HTTP ${response.status})`);
+    }
+    return response.text();
 }
 
 /**
- * Reduce the frontmatter block into key/value pairs while coercing common value
- * shapes (numbers, booleans, JSON arrays/objects, quoted strings).
- *
- * @param lines Lines extracted from the frontmatter segment.
- * @param path File path used for error messages.
- * @returns Strongly-typed frontmatter object.
+ * Read the manifest formats accepted by {@link loadRemoteTopics}.
+ * @param text Manifest body.
+ * @param base Manifest URL that relative entries resolve against.
  */
-function parseFrontmatter(lines: string[], path: string): Partial<TopicFrontmatter> {
-    const data: Record<string, unknown> = {};
-
-    let index = 0;
-    while (index < lines.length) {
-        const rawLine = lines[index];
-        const trimmedLine = rawLine.trim();
-        index++;
+function parseDeckManifest(text: string, base: URL): DeckEntry[] {
+    const trimmed = text.trim();
+    const fromUrl = (value: string): DeckEntry => {
+        const url = new URL(value, base);
+        return { path: url.href, url };
+    };
+
+    if (!trimmed.startsWith('[') && !trimmed.startsWith('{')) {
+        const entries = trimmed
+            .split(/\r?\n/)
+            .map((line) => line.replace(/(^|\s)#.*$/, '').trim())
+            .filter((line) => line.length > 0)
+            .map(fromUrl);
+        if (entries.length === 0) throw new Error(`Deck manifest ${base.href} does not list any topics`);
+        return entries;
+    }
 
-        if (trimmedLine.length === 0) continue;
+    let manifest: unknown;
+    try {
+        manifest = JSON.parse(trimmed);
+    } catch (error) {
+        throw new Error(`Deck manifest ${base.href} is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+    }
 
-        const separatorIndex = rawLine.indexOf(':');
-        if (separatorIndex === -1) {
-            throw new Error(`Invalid frontmatter entry in ${path}: "${rawLine}"`);
-        }
+    const list = Array.isArray(manifest) ? manifest : (manifest as { topics?: unknown })?.topics;
+    if (!Array.isArray(list) || list.length === 0) {
+        throw new Error(`Deck manifest ${base.href} must be a non-empty array of topics or an object with a "topics" array`);
+    }
 
-        const key = rawLine.slice(0, separatorIndex).trim();
-        if (!key) {
-            throw new Error(`Invalid frontmatter key in ${path}: "${rawLine}"`);
+    return list.map((entry, i) => {
+        if (typeof entry === 'string') return fromUrl(entry);
+        const { path, source, url } = (entry ?? {}) as Record<string, unknown>;
+        if (typeof url === 'string') return fromUrl(url);
+        if (typeof source === 'string') {
+            return { path: typeof path === 'string' ? path : `${base.href}#topic-${i}`, source };
         }
+        throw new Error(`Deck manifest ${base.href} entry ${i} must be a URL string, { "url" } or { "path", "source" }`);
+    });
+}
 
-        const valuePortion = rawLine.slice(separatorIndex + 1).trim();
-
-        if (valuePortion === '|' || valuePortion === '>') {
-            const blockLines: string[] = [];
-
-            while (index < lines.length) {
-                const blockCandidate = lines[index];
-                const trimmedCandidate = blockCandidate.trimEnd();
-
-                if (trimmedCandidate.length === 0) {
-                    blockLines.push('');
-                    index++;
-                    continue;
-                }
-
-                const indentMatch = blockCandidate.match(/^\s+/);
-                if (!indentMatch) break;
-
-                const content = blockCandidate.slice(indentMatch[0].length);
-                blockLines.push(content);
-                index++;
-            }
-
-            const blockValue = valuePortion === '>'
-                ? blockLines.join(' ').replace(/\s+/g, ' ').trim()
-                : blockLines.join('\n');
-            data[key] = blockValue;
-            continue;
-        }
+function formatDeckStatus(message: string, url: string): string {
+    return `<p>${escapeHtml(message)}</p><p><small>${escapeHtml(url)}</small></p>`;
+}
 
-        data[key] = coerceValue(valuePortion);
-    }
+function formatDeckError(url: string, error: unknown): string {
+    const details = error instanceof TopicParseError
+        ? error.diagnostics.map(formatDiagnostic)
+        : [error instanceof Error ? error.message : String(error)];
+    return `<p><strong>Could not load deck</strong> <small>${escapeHtml(url)}</small></p>`
+        + `<pre style="white-space: pre-wrap; margin: 0;">${escapeHtml(details.join('\n'))}</pre>`;
+}
 
-    return data as Partial<TopicFrontmatter>;
+function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
 }
 
 /**
- * Coerce scalar string values into richer runtime types when possible.
- * Supports JSON aggregates, quoted strings, booleans, and numbers out of the box.
- *
- * @param value Raw string extracted from the frontmatter line.
- * @returns Parsed representation best matching the supplied literal.
+ * Parse every topic source, logging warnings and cross-file lint results.
+ * @throws {TopicParseError} with the errors of all broken files, not just the first.
  */
-function coerceValue(value: string): unknown {
-    if (value.startsWith('[') || value.startsWith('{')) {
-        try {
-            return JSON.parse(value);
-        } catch (error) {
-            console.warn('Failed to parse JSON frontmatter value', value, error);
-            return value;
-        }
-    }
-
-    if ((value.startsWith('"') && value.endsWith('"')) || (value.startsWith('\'') && value.endsWith('\''))) {
-        return value.slice(1, -1);
-    }
-
-    if (value === 'true' || value === 'false') {
-        return value === 'true';
-    }
+function parseTopicModules(modules: Record<string, string>): ParsedTopic[] {
+    const parsedTopics: ParsedTopic[] = [];
+    const errors: TopicDiagnostic[] = [];
+
+    Object.entries(modules).forEach(([path, raw]) => {
+        const { topic, diagnostics } = parseTopicSource(path, raw);
+        diagnostics.forEach((diagnostic) => {
+            if (diagnostic.severity === 'error') errors.push(diagnostic);
+            else console.warn(formatDiagnostic(diagnostic));
+        });
+        if (topic) parsedTopics.push(topic);
+    });
 
-    const numeric = Number(value);
-    if (!Number.isNaN(numeric)) {
-        return numeric;
+    if (errors.length > 0) {
+        throw new TopicParseError(errors);
     }
 
-    return value;
+    lintTopicSet(parsedTopics).forEach((diagnostic) => console.warn(formatDiagnostic(diagnostic)));
+    return parsedTopics;
 }
 
 /**
- * Ensure required fields are present and vector tuples have the expected shape.
- *
- * @param frontmatter Partially-typed metadata candidate.
- * @param path File path used for descriptive error messages.
+ * Sort parsed topics and turn them into router topics and page payloads.
+ * @param remote Topics come from a remote deck: break `order` ties by input position
+ *   (stable sort) instead of title, and sanitise their HUD copy, notes and page content.
  */
-function validateFrontmatter(frontmatter: Partial<TopicFrontmatter>, path: string): asserts frontmatter is TopicFrontmatter {
-    if (typeof frontmatter.id !== 'string') {
-        throw new Error(`Topic file ${path} is missing a string id`);
-    }
+function buildTopicBundle(parsedTopics: ParsedTopic[], hud: Hud, sceneActions?: SceneActionRegistry, remote = false): LoadedTopicBundle {
+    const clean = remote ? sanitizeHtml : (html: string) => html;
+    parsedTopics.sort((a, b) => {
+        const orderA = a.frontmatter.order ?? Number.POSITIVE_INFINITY;
+        const orderB = b.frontmatter.order ?? Number.POSITIVE_INFINITY;
+        if (orderA !== orderB) return orderA - orderB;
+        return remote ? 0 : a.frontmatter.title.localeCompare(b.frontmatter.title);
+    });
 
-    if (typeof frontmatter.title !== 'string') {
-        throw new Error(`Topic file ${path} is missing a string title`);
-    }
+    const topics: Topic[] = [];
+    const pages: RenderPagePayload[] = [];
 
-    if (!Array.isArray(frontmatter.position) || frontmatter.position.length !== 3 || !frontmatter.position.every((v) => typeof v === 'number')) {
-        throw new Error(`Topic file ${path} must supply numeric position [x, y, z]`);
-    }
+    parsedTopics.forEach(({ frontmatter, content, markup }) => {
+        const hudFormat = frontmatter.hudFormat ?? markup;
+        const hudMarkup = frontmatter.hud
+            ? clean(hudFormat === 'markdown' ? renderMarkdown(frontmatter.hud) : formatHudMarkup(frontmatter.hud))
+            : undefined;
+        const actions = frontmatter.actions ?? [];
+        let undoActions: (() => void) | null = null;
 
-    if (frontmatter.lookAt) {
-        if (!Array.isArray(frontmatter.lookAt) || frontmatter.lookAt.length !== 3 || !frontmatter.lookAt.every((v) => typeof v === 'number')) {
-            throw new Error(`Topic file ${path} has invalid lookAt; expected numeric [x, y, z]`);
-        }
-    }
+        const revertActions = () => {
+            undoActions?.();
+            undoActions = null;
+        };
 
-    if (frontmatter.pagePosition) {
-        if (!Array.isArray(frontmatter.pagePosition) || frontmatter.pagePosition.length !== 3 || !frontmatter.pagePosition.every((v) => typeof v === 'number')) {
-            throw new Error(`Topic file ${path} has invalid pagePosition; expected numeric [x, y, z]`);
-        }
-    }
+        topics.push({
+            id: frontmatter.id,
+            title: frontmatter.title,
+            notes: frontmatter.notes ? clean(formatHudMarkup(frontmatter.notes)) : undefined,
+            position: toVector3(frontmatter.position),
+            lookAt: frontmatter.lookAt ? toVector3(frontmatter.lookAt) : undefined,
+            orientation: toOrientation(frontmatter),
+            waypoints: frontmatter.waypoints?.map(toVector3),
+            easing: frontmatter.easing,
+            durationMs: frontmatter.duration,
+            dwellMs: frontmatter.dwell,
+            links: frontmatter.links,
+            onEnter: () => {
+                hud.set(hudMarkup ?? '');
+                if (!sceneActions || actions.length === 0) return;
+                revertActions();
+                undoActions = sceneActions.run(actions);
+            },
+            onLeave: revertActions,
+        });
 
-    if (frontmatter.anchorId !== undefined && typeof frontmatter.anchorId !== 'string') {
-        throw new Error(`Topic file ${path} has invalid anchorId; expected string identifier`);
-    }
+        const fallbackTuple = frontmatter.pagePosition ?? frontmatter.lookAt ?? frontmatter.position;
+        pages.push({
+            id: frontmatter.id,
+            title: frontmatter.title,
+            content: clean(markup === 'markdown' ? renderMarkdown(content) : content),
+            fallbackTarget: toVector3(fallbackTuple),
+            anchorId: frontmatter.anchorId,
+        });
+    });
 
-    if (frontmatter.hud !== undefined && typeof frontmatter.hud !== 'string') {
-        throw new Error(`Topic file ${path} has invalid hud; expected multiline string`);
-    }
+    return { topics, pages };
 }
 
 /**
@@ -293,6 +344,40 @@ function toVector3(tuple: Vector3Tuple): THREE.Vector3 {
     return new THREE.Vector3(tuple[0], tuple[1], tuple[2]);
 }
 
+/**
+ * Resolve the optional orientation fields into a camera quaternion. Topics that only
+ * declare `lookAt` return undefined so the router keeps its look-at interpolation.
+ *
+ * @param frontmatter Validated topic metadata.
+ * @returns Camera orientation, or undefined when the topic does not specify one.
+ */
+function toOrientation(frontmatter: TopicFrontmatter): THREE.Quaternion | undefined {
+    if (frontmatter.quaternion) {
+        return new THREE.Quaternion(...frontmatter.quaternion).normalize();
+    }
+
+    if (frontmatter.euler) {
+        const [x, y, z] = frontmatter.euler.map((deg) => THREE.MathUtils.degToRad(deg));
+        return new THREE.Quaternion().setFromEuler(new THREE.Euler(x, y, z));
+    }
+
+    if (!frontmatter.up && frontmatter.roll === undefined) {
+        return undefined;
+    }
+
+    const eye = toVector3(frontmatter.position);
+    const target = toVector3(frontmatter.lookAt ?? [0, 0, -1]);
+    const up = frontmatter.up ? toVector3(frontmatter.up).normalize() : new THREE.Vector3(0, 1, 0);
+    const orientation = new THREE.Quaternion().setFromRotationMatrix(new THREE.Matrix4().lookAt(eye, target, up));
+
+    if (frontmatter.roll !== undefined) {
+        const roll = new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), THREE.MathUtils.degToRad(frontmatter.roll));
+        orientation.multiply(roll);
+    }
+
+    return orientation;
+}
+
 function formatHudMarkup(value: string): string {
     const trimmed = value.trim();
     if (trimmed.length === 0) {
@@ -0,0 +1,536 @@
+import type { Vector3Tuple, Vector4Tuple } from 'three';
+import { isEasingName, easings, type EasingName } from './easing';
+import { validateSceneActions, type SceneAction } from './sceneActions';
+import { isYamlNumber, parseYaml, toPlainValue, YamlSyntaxError, type YamlNode, type YamlScalar } from './yamlSubset';
+
+/**
+ * Shape of the metadata block each topic file must provide, written as YAML.
+ * Vectors may use flow (`[x, y, z]`) or block list syntax.
+ *
+ * @interface TopicFrontmatter
+ * @property {string} id Unique identifier used by the router.
+ * @property {string} title Human-readable title for navigation/HUD copy.
+ * @property {Vector3Tuple} position Camera destination in world space.
+ * @property {Vector3Tuple} [lookAt] Optional vector the camera should face.
+ * @property {Vector3Tuple} [pagePosition] Optional override for where the topic page should live in the scene.
+ * @property {string} [anchorId] Optional scene anchor name for dynamic placement.
+ * @property {string} [hud] Multiline HTML/markup rendered inside the HUD overlay.
+ * @property {TopicMarkup} [hudFormat] How `hud` is written; defaults to the topic file's own format.
+ * @property {string} [notes] Multiline speaker notes shown in the presenter view.
+ * @property {number} [order] Sorting hint when filenames are not strictly ordered.
+ * @property {SceneAction[]} [actions] Scene commands run on enter and reverted on leave.
+ * @property {Vector4Tuple} [quaternion] Optional camera orientation as `[x, y, z, w]`; takes precedence over every other orientation field.
+ * @property {Vector3Tuple} [euler] Optional camera orientation as XYZ Euler angles in degrees.
+ * @property {Vector3Tuple} [up] Optional up vector used together with `lookAt` to orient the camera.
+ * @property {number} [roll] Optional roll in degrees around the view axis, applied on top of `lookAt`/`up`.
+ * @property {Vector3Tuple[]} [waypoints] Optional points the camera curves through on its way to this topic.
+ * @property {EasingName} [easing] Optional easing curve for transitions into this topic.
+ * @property {number} [duration] Optional fixed transition duration in milliseconds.
+ * @property {number} [dwell] Optional time in milliseconds autoplay stays on this topic after arriving.
+ * @property {Record<string, string>} [links] Optional named branches to other topic ids, e.g. `Skip to showcase: showcase`.
+ */
+export interface TopicFrontmatter {
+    id: string;
+    title: string;
+    position: Vector3Tuple;
+    lookAt?: Vector3Tuple;
+    pagePosition?: Vector3Tuple;
+    anchorId?: string;
+    hud?: string;
+    hudFormat?: TopicMarkup;
+    notes?: string;
+    order?: number;
+    actions?: SceneAction[];
+    quaternion?: Vector4Tuple;
+    euler?: Vector3Tuple;
+    up?: Vector3Tuple;
+    roll?: number;
+    waypoints?: Vector3Tuple[];
+    easing?: EasingName;
+    duration?: number;
+    dwell?: number;
+    links?: Record<string, string>;
+}
+
+/**
+ * How each YAML value is coerced: `numbers` is a list of numbers (tuple length is checked
+ * during validation), `numberLists` a list of such lists, `stringMap` a mapping of string
+ * values, and `value` keeps YAML's own typing for structured values validated elsewhere.
+ */
+type FieldKind = 'string' | 'number' | 'numbers' | 'numberLists' | 'stringMap' | 'value';
+
+/** Every key the frontmatter accepts and its expected shape; anything else is reported as unknown. */
+const FRONTMATTER_SCHEMA: Record<keyof TopicFrontmatter, FieldKind> = {
+    id: 'string',
+    title: 'string',
+    position: 'numbers',
+    lookAt: 'numbers',
+    pagePosition: 'numbers',
+    anchorId: 'string',
+    hud: 'string',
+    hudFormat: 'string',
+    notes: 'string',
+    order: 'number',
+    actions: 'value',
+    quaternion: 'numbers',
+    euler: 'numbers',
+    up: 'numbers',
+    roll: 'number',
+    waypoints: 'numberLists',
+    easing: 'string',
+    duration: 'number',
+    dwell: 'number',
+    links: 'stringMap',
+};
+
+/** Markup a topic body or HUD block is written in. */
+export type TopicMarkup = 'html' | 'markdown';
+
+/** File names the loader and lint CLI treat as topics. */
+export const TOPIC_FILE_PATTERN = /\.(html|md)$/;
+
+/**
+ * Markup of a topic file's body, decided by its extension.
+ * @param path Module path, file path or URL (query and fragment are ignored).
+ */
+export function topicMarkupOf(path: string): TopicMarkup {
+    return /\.md$/.test(path.replace(/[?#].*$/, '')) ? 'markdown' : 'html';
+}
+
+/** 1-based position inside a topic file. */
+export type SourceLocation = { line: number; column: number };
+
+/**
+ * A problem found while parsing or cross-checking topic files.
+ * Errors make a topic unusable; warnings (e.g. unknown keys) are reported but tolerated.
+ */
+export type TopicDiagnostic = SourceLocation & {
+    path: string;
+    severity: 'error' | 'warning';
+    message: string;
+};
+
+/**
+ * Thrown by {@link parseTopicFile} when a topic file has at least one error.
+ * The message describes the first error; `diagnostics` holds every problem found.
+ */
+export class TopicParseError extends Error {
+    readonly diagnostics: TopicDiagnostic[];
+
+    constructor(diagnostics: TopicDiagnostic[]) {
+        const first = diagnostics.find((diagnostic) => diagnostic.severity === 'error') ?? diagnostics[0];
+        super(formatDiagnostic(first));
+        this.name = 'TopicParseError';
+        this.diagnostics = diagnostics;
+    }
+}
+
+/**
+ * Parsed representation of a topic file, separating frontmatter metadata from its body.
+ * `content` is the body as written (HTML or Markdown, see `markup`); `locations` records
+ * where each frontmatter key was declared for later diagnostics.
+ */
+export interface ParsedTopic {
+    path: string;
+    frontmatter: TopicFrontmatter;
+    content: string;
+    markup: TopicMarkup;
+    locations: Partial<Record<string, SourceLocation>>;
+}
+
+type Report = (location: SourceLocation, message: string, severity?: TopicDiagnostic['severity']) => void;
+
+/**
+ * Split a raw topic file into frontmatter and body content, collecting every problem
+ * instead of stopping at the first one.
+ *
+ * @param path Module path or file path used in diagnostics.
+ * @param raw Raw file contents.
+ * @returns The parsed topic (null when it has errors) and all diagnostics.
+ */
+export function parseTopicSource(path: string, raw: string): { topic: ParsedTopic | null; diagnostics: TopicDiagnostic[] } {
+    const diagnostics: TopicDiagnostic[] = [];
+    const report: Report = ({ line, column }, message, severity = 'error') => {
+        diagnostics.push({ path, line, column, severity, message });
+    };
+
+    const lines = raw.split(/\r?\n/);
+    const openingIndex = lines.findIndex((line) => line.trim().length > 0);
+    if (openingIndex === -1 || !lines[openingIndex].trimStart().startsWith('---')) {
+        report({ line: Math.max(openingIndex, 0) + 1, column: 1 }, 'Topic file is missing frontmatter delimiter');
+        return { topic: null, diagnostics };
+    }
+
+    const closingIndex = lines.indexOf('---', openingIndex + 1);
+    if (closingIndex === -1) {
+        report({ line: openingIndex + 1, column: 1 }, 'Topic file is missing closing frontmatter delimiter');
+        return { topic: null, diagnostics };
+    }
+
+    const frontmatterLines = lines.slice(openingIndex + 1, closingIndex);
+    const parsed = parseFrontmatter(frontmatterLines, openingIndex + 2, report);
+    if (!parsed) {
+        return { topic: null, diagnostics };
+    }
+
+    const { data, locations } = parsed;
+    const frontmatter = validateFrontmatter(data, locations, { line: openingIndex + 1, column: 1 }, report);
+    const content = lines.slice(closingIndex + 1).join('\n').trim();
+
+    const hasErrors = diagnostics.some((diagnostic) => diagnostic.severity === 'error');
+    return {
+        topic: frontmatter && !hasErrors ? { path, frontmatter, content, markup: topicMarkupOf(path), locations } : null,
+        diagnostics,
+    };
+}
+
+/**
+ * Parse a topic file for runtime use: warnings are logged and the first error is thrown.
+ *
+ * @param path Module path reported by `import.meta.glob`.
+ * @param raw Raw file contents returned by Vite.
+ * @returns ParsedTopic with metadata and HTML body.
+ * @throws {TopicParseError} when the file has any error.
+ */
+export function parseTopicFile(path: string, raw: string): ParsedTopic {
+    const { topic, diagnostics } = parseTopicSource(path, raw);
+    diagnostics
+        .filter((diagnostic) => diagnostic.severity === 'warning')
+        .forEach((diagnostic) => console.warn(formatDiagnostic(diagnostic)));
+
+    if (!topic) {
+        throw new TopicParseError(diagnostics);
+    }
+    return topic;
+}
+
+/**
+ * Check problems that only show up across files: duplicate ids, conflicting `order`
+ * values, `links` to unknown topic ids and `anchorId`s that name nothing in the scene.
+ *
+ * @param topics Successfully parsed topics.
+ * @param knownAnchors Scene object names anchors may reference; the anchor check is skipped when omitted.
+ * @returns Diagnostics located at the offending key of the later file.
+ */
+export function lintTopicSet(topics: ParsedTopic[], knownAnchors?: Iterable<string>): TopicDiagnostic[] {
+    const diagnostics: TopicDiagnostic[] = [];
+    const locate = (topic: ParsedTopic, key: string): SourceLocation => topic.locations[key] ?? { line: 1, column: 1 };
+
+    const byId = new Map<string, ParsedTopic>();
+    const byOrder = new Map<number, ParsedTopic>();
+    topics.forEach((topic) => {
+        const { id, order } = topic.frontmatter;
+
+        const firstWithId = byId.get(id);
+        if (firstWithId) {
+            diagnostics.push({
+                path: topic.path, ...locate(topic, 'id'), severity: 'error',
+                message: `Duplicate topic id "${id}" (already used by ${firstWithId.path})`,
+            });
+        } else {
+            byId.set(id, topic);
+        }
+
+        if (order === undefined) return;
+        const firstWithOrder = byOrder.get(order);
+        if (firstWithOrder) {
+            diagnostics.push({
+                path: topic.path, ...locate(topic, 'order'), severity: 'error',
+                message: `Conflicting order ${order} (already used by ${firstWithOrder.path})`,
+            });
+        } else {
+            byOrder.set(order, topic);
+        }
+    });
+
+    topics.forEach((topic) => {
+        Object.entries(topic.frontmatter.links ?? {}).forEach(([name, target]) => {
+            if (byId.has(target)) return;
+            diagnostics.push({
+                path: topic.path, ...locate(topic, 'links'), severity: 'error',
+                message: `Link "${name}" points to unknown topic id "${target}"`,
+            });
+        });
+    });
+
+    if (knownAnchors) {
+        const anchors = new Set(knownAnchors);
+        topics.forEach((topic) => {
+            const { anchorId } = topic.frontmatter;
+            if (anchorId !== undefined && !anchors.has(anchorId)) {
+                diagnostics.push({
+                    path: topic.path, ...locate(topic, 'anchorId'), severity: 'error',
+                    message: `anchorId "${anchorId}" does not name any object in the scene`,
+                });
+            }
+        });
+    }
+
+    return diagnostics;
+}
+
+/**
+ * Format a diagnostic the way compilers do: `path:line:column - severity: message`.
+ * @param diagnostic
+ */
+export function formatDiagnostic({ path, line, column, severity, message }: TopicDiagnostic): string {
+    return `${path}:${line}:${column} - ${severity}: ${message}`;
+}
+
+/**
+ * Parse the frontmatter block as YAML and coerce each known key against
+ * {@link FRONTMATTER_SCHEMA}; unknown keys keep YAML's own scalar typing.
+ *
+ * @param lines Lines extracted from the frontmatter segment.
+ * @param firstLine 1-based file line of `lines[0]`.
+ * @param report Diagnostic sink.
+ * @returns Coerced values plus the location of every key, or null when the YAML itself is malformed.
+ */
+function parseFrontmatter(lines: string[], firstLine: number, report: Report) {
+    const data: Record<string, unknown> = {};
+    const locations: Partial<Record<string, SourceLocation>> = {};
+
+    let root: YamlNode;
+    try {
+        root = parseYaml(lines.join('\n'), firstLine);
+    } catch (error) {
+        if (!(error instanceof YamlSyntaxError)) throw error;
+        report({ line: error.line, column: error.column }, `Invalid frontmatter: ${error.message}`);
+        return null;
+    }
+
+    if (root.kind !== 'mapping') {
+        report(root.location, 'Frontmatter must be a list of "key: value" entries');
+        return null;
+    }
+
+    root.entries.forEach(({ key, keyLocation, value }) => {
+        const previous = locations[key];
+        if (previous) {
+            report(keyLocation, `Duplicate frontmatter key "${key}" (first declared on line ${previous.line})`);
+        }
+        locations[key] = keyLocation;
+
+        if (!Object.prototype.hasOwnProperty.call(FRONTMATTER_SCHEMA, key)) {
+            const suggestion = suggestKey(key);
+            report(
+                keyLocation,
+                `Unknown frontmatter key "${key}"${suggestion ? `; did you mean "${suggestion}"?` : ''}`,
+                'warning',
+            );
+            data[key] = toPlainValue(value);
+            return;
+        }
+
+        data[key] = coerceValue(key, value, FRONTMATTER_SCHEMA[key as keyof TopicFrontmatter], report);
+    });
+
+    return { data, locations };
+}
+
+/** Marks a value that already produced a diagnostic so validation doesn't report it twice. */
+const INVALID_VALUE = Symbol('invalid frontmatter value');
+
+const VALUE_DESCRIPTIONS: Record<FieldKind, string> = {
+    string: 'a string',
+    number: 'a number',
+    numbers: 'a list of numbers',
+    numberLists: 'a list of [x, y, z] points',
+    stringMap: 'a mapping of names to strings',
+    value: 'a value',
+};
+
+/**
+ * Convert a YAML node to the runtime type the schema expects for `key`. Strings are taken
+ * verbatim, so `id: 007` stays "007"; numbers must be unquoted numeric scalars.
+ *
+ * @param key Frontmatter key, used in messages.
+ * @param node Parsed YAML value.
+ * @param kind Expected shape from {@link FRONTMATTER_SCHEMA}.
+ * @param report Diagnostic sink.
+ * @returns The coerced value, or {@link INVALID_VALUE} after reporting at the offending node.
+ */
+function coerceValue(key: string, node: YamlNode, kind: FieldKind, report: Report): unknown {
+    const invalid = (at: YamlNode, expected: FieldKind) => {
+        report(at.location, `Invalid ${key}; expected ${VALUE_DESCRIPTIONS[expected]}`);
+        return INVALID_VALUE;
+    };
+
+    const toNumber = (item: YamlNode) => (
+        item.kind === 'scalar' && !item.quoted && isYamlNumber(item.value) ? Number(item.value) : INVALID_VALUE
+    );
+
+    switch (kind) {
+        case 'string':
+            return node.kind === 'scalar' ? node.value : invalid(node, kind);
+        case 'number': {
+            const value = toNumber(node);
+            return value === INVALID_VALUE ? invalid(node, kind) : value;
+        }
+        case 'numbers': {
+            if (node.kind !== 'sequence') return invalid(node, kind);
+            const bad = node.items.find((item) => toNumber(item) === INVALID_VALUE);
+            return bad ? invalid(bad, 'number') : node.items.map(toNumber);
+        }
+        case 'numberLists': {
+            if (node.kind !== 'sequence') return invalid(node, kind);
+            const points = node.items.map((item) => coerceValue(key, item, 'numbers', report));
+            return points.includes(INVALID_VALUE) ? INVALID_VALUE : points;
+        }
+        case 'stringMap': {
+            if (node.kind !== 'mapping') return invalid(node, kind);
+            const bad = node.entries.find(({ value }) => value.kind !== 'scalar');
+            if (bad) return invalid(bad.value, 'string');
+            return Object.fromEntries(node.entries.map(({ key: name, value }) => [name, (value as YamlScalar).value]));
+        }
+        case 'value':
+            return toPlainValue(node);
+    }
+}
+
+/**
+ * Ensure required fields are present and vector tuples have the expected shape.
+ * Every problem is reported at the key that caused it.
+ *
+ * @param frontmatter Partially-typed metadata candidate.
+ * @param locations Where each key was declared.
+ * @param fallback Location used for missing required keys (the opening delimiter).
+ * @param report Diagnostic sink.
+ * @returns The typed frontmatter, or null when a required field is unusable.
+ */
+function validateFrontmatter(
+    frontmatter: Partial<TopicFrontmatter> & Record<string, unknown>,
+    locations: Partial<Record<string, SourceLocation>>,
+    fallback: SourceLocation,
+    report: Report,
+): TopicFrontmatter | null {
+    const at = (key: string) => locations[key] ?? fallback;
+    // Keys whose value already failed to coerce were reported by coerceValue.
+    const unparsed = new Set(Object.keys(frontmatter).filter((key) => frontmatter[key] === INVALID_VALUE));
+    const isTuple = (value: unknown, length: number) => (
+        Array.isArray(value) && value.length === length && value.every((v) => typeof v === 'number')
+    );
+    let valid = true;
+    const fail = (key: string, message: string) => {
+        if (!unparsed.has(key)) report(at(key), message);
+        valid = false;
+    };
+
+    if (typeof frontmatter.id !== 'string') {
+        fail('id', 'Topic file is missing a string id');
+    }
+
+    if (typeof frontmatter.title !== 'string') {
+        fail('title', 'Topic file is missing a string title');
+    }
+
+    if (!isTuple(frontmatter.position, 3)) {
+        fail('position', 'Topic file must supply numeric position [x, y, z]');
+    }
+
+    if (frontmatter.lookAt !== undefined && !isTuple(frontmatter.lookAt, 3)) {
+        fail('lookAt', 'Invalid lookAt; expected numeric [x, y, z]');
+    }
+
+    if (frontmatter.pagePosition !== undefined && !isTuple(frontmatter.pagePosition, 3)) {
+        fail('pagePosition', 'Invalid pagePosition; expected numeric [x, y, z]');
+    }
+
+    if (frontmatter.anchorId !== undefined && typeof frontmatter.anchorId !== 'string') {
+        fail('anchorId', 'Invalid anchorId; expected string identifier');
+    }
+
+    if (frontmatter.hud !== undefined && typeof frontmatter.hud !== 'string') {
+        fail('hud', 'Invalid hud; expected multiline string');
+    }
+
+    if (frontmatter.hudFormat !== undefined && frontmatter.hudFormat !== 'html' && frontmatter.hudFormat !== 'markdown') {
+        fail('hudFormat', 'Invalid hudFormat; expected html or markdown');
+    }
+
+    if (frontmatter.notes !== undefined && typeof frontmatter.notes !== 'string') {
+        fail('notes', 'Invalid notes; expected multiline string');
+    }
+
+    if (frontmatter.order !== undefined && typeof frontmatter.order !== 'number') {
+        fail('order', 'Invalid order; expected a number');
+    }
+
+    if (frontmatter.quaternion !== undefined && !isTuple(frontmatter.quaternion, 4)) {
+        fail('quaternion', 'Invalid quaternion; expected numeric [x, y, z, w]');
+    }
+
+    if (frontmatter.euler !== undefined && !isTuple(frontmatter.euler, 3)) {
+        fail('euler', 'Invalid euler; expected numeric [x, y, z] in degrees');
+    }
+
+    if (frontmatter.up !== undefined && !isTuple(frontmatter.up, 3)) {
+        fail('up', 'Invalid up; expected numeric [x, y, z]');
+    }
+
+    if (frontmatter.roll !== undefined && typeof frontmatter.roll !== 'number') {
+        fail('roll', 'Invalid roll; expected a number of degrees');
+    }
+
+    if (frontmatter.waypoints !== undefined) {
+        if (!Array.isArray(frontmatter.waypoints) || !frontmatter.waypoints.every((point) => isTuple(point, 3))) {
+            fail('waypoints', 'Invalid waypoints; expected an array of numeric [x, y, z]');
+        }
+    }
+
+    if (frontmatter.easing !== undefined && !isEasingName(frontmatter.easing)) {
+        fail('easing', `Invalid easing; expected one of ${Object.keys(easings).join(', ')}`);
+    }
+
+    if (frontmatter.duration !== undefined && (typeof frontmatter.duration !== 'number' || frontmatter.duration < 0)) {
+        fail('duration', 'Invalid duration; expected a non-negative number of milliseconds');
+    }
+
+    if (frontmatter.dwell !== undefined && (typeof frontmatter.dwell !== 'number' || frontmatter.dwell <= 0)) {
+        fail('dwell', 'Invalid dwell; expected a positive number of milliseconds');
+    }
+
+    if (frontmatter.links !== undefined) {
+        const links = frontmatter.links as unknown;
+        const isLinkMap = typeof links === 'object' && links !== null && !Array.isArray(links)
+            && Object.values(links).every((target) => typeof target === 'string' && target.length > 0);
+        if (!isLinkMap) fail('links', 'Invalid links; expected a mapping of link names to topic ids');
+    }
+
+    if (frontmatter.actions !== undefined) {
+        if (!validateSceneActions(frontmatter.actions, (message) => fail('actions', message))) valid = false;
+    }
+
+    return valid ? frontmatter as TopicFrontmatter : null;
+}
+
+/**
+ * Suggest the known key closest to a misspelled one (case-insensitive match or edit distance ≤ 2).
+ */
+function suggestKey(key: string): string | undefined {
+    const known = Object.keys(FRONTMATTER_SCHEMA);
+    const lower = key.toLowerCase();
+    const caseMatch = known.find((candidate) => candidate.toLowerCase() === lower);
+    if (caseMatch) return caseMatch;
+
+    let best: { key: string; distance: number } | undefined;
+    known.forEach((candidate) => {
+        const distance = editDistance(lower, candidate.toLowerCase());
+        if (distance <= 2 && (!best || distance < best.distance)) best = { key: candidate, distance };
+    });
+    return best?.key;
+}
+
+function editDistance(a: string, b: string): number {
+    const previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+        let diagonal = previous[0];
+        previous[0] = i;
+        for (let j = 1; j <= b.length; j++) {
+            const above = previous[j];
+            previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+            diagonal = above;
+        }
+    }
+    return previous[b.length];
+}
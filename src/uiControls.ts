@@ -1,10 +1,69 @@
+import type { BranchButton } from './hud';
+import type { SettingsHistory } from './settingsHistory';
+import { DEFAULT_SETTINGS, type ControlValue, type Settings, type SettingsStore } from './settingsStore';
+
 export type NavControl = {
     icon: string;
     aria: string;
     handler: () => void;
 };
 
+type ControlBase<T extends ControlValue> = {
+    key: string;
+    label: string;
+    default: T;
+    onChange?: (value: T) => void;
+};
+
+/**
+ * One control in a panel section. `key` names a typed setting (e.g. `speed`) or, for
+ * controls a feature adds, an entry in `settings.controls`; either way the value is saved.
+ * `onChange` runs once when the panel is built and again whenever the value changes,
+ * whether from the control, a reset, a preset or anything else writing the store.
+ */
+export type PanelControl =
+    | (ControlBase<number> & { type: 'range'; min: number; max: number; step?: number })
+    | (ControlBase<string> & { type: 'color' })
+    | (ControlBase<boolean> & { type: 'toggle' })
+    | (ControlBase<string> & { type: 'select'; options: Array<{ value: string; label: string }> });
+
+/**
+ * A collapsible group of controls, with a button resetting them to their defaults.
+ */
+export type PanelSection = {
+    title: string;
+    controls: PanelControl[];
+    collapsed?: boolean;
+};
+
+/** Ready-made content shown as a collapsible panel section, e.g. the preset picker. */
+export type CustomPanelSection = {
+    title: string;
+    content: HTMLElement;
+    collapsed?: boolean;
+};
+
+export type PanelAction = {
+    label: string;
+    handler: () => void;
+    id?: string;
+};
+
+/**
+ * @property {SettingsStore} settings Store the panel's controls read from and write to.
+ * @property {PanelSection[]} [sections] Control sections built from their descriptions.
+ * @property {CustomPanelSection[]} [customSections] Extra sections shown after the control sections.
+ * @property {PanelAction[]} [actions] Buttons in the panel's action row, before Reset All.
+ * @property {SettingsHistory} [history] Makes control changes undoable and adds Undo and Redo buttons at the start of the action row.
+ * @property {HTMLElement} [host] Element the controls are appended to; floating top-right when omitted.
+ * @property {NavControl[]} [navControls] Icon buttons shown before the settings toggle.
+ */
 export type ControlsOptions = {
+    settings: SettingsStore;
+    sections?: PanelSection[];
+    customSections?: CustomPanelSection[];
+    actions?: PanelAction[];
+    history?: SettingsHistory;
     host?: HTMLElement;
     navControls?: NavControl[];
 };
@@ -91,29 +150,230 @@ function createColorInput(id: string, value: string, ariaLabel: string): HTMLInp
     return input;
 }
 
-export function setupUIControls(
-    toggleCallback: () => void,
-    speedCallback: (value: number) => void,
-    worldGradientCallback: (startColor: string, endColor: string) => void,
-    lightContorlsCallback: (color: string, intensity: number) => void,
-    cubeControls: (materialColor: string, metalness: number, roughness: number) => void,
-    options?: ControlsOptions,
-) {
-    const host = options?.host ?? document.body;
-    const navControls = options?.navControls ?? [];
+function addToggleRow(panel: HTMLElement, label: string, id: string, onChange: (checked: boolean) => void): HTMLInputElement {
+    const row = document.createElement('label');
+    row.className = 'hud-panel__row';
+
+    const text = document.createElement('span');
+    text.className = 'hud-panel__label';
+    text.textContent = label;
+
+    const input = document.createElement('input');
+    input.type = 'checkbox';
+    input.id = id;
+    input.className = 'hud-panel__toggle';
+    input.addEventListener('change', () => onChange(input.checked));
+
+    row.append(text, input);
+    panel.appendChild(row);
+    return input;
+}
+
+function addSelectRow(
+    panel: HTMLElement,
+    label: string,
+    id: string,
+    options: Array<{ value: string; label: string }>,
+    onChange: (value: string) => void,
+): HTMLSelectElement {
+    const row = document.createElement('label');
+    row.className = 'hud-panel__row';
+
+    const text = document.createElement('span');
+    text.className = 'hud-panel__label';
+    text.textContent = label;
+
+    const select = document.createElement('select');
+    select.id = id;
+    select.className = 'hud-panel__select';
+    select.append(...options.map((option) => {
+        const element = document.createElement('option');
+        element.value = option.value;
+        element.textContent = option.label;
+        return element;
+    }));
+    select.addEventListener('change', () => onChange(select.value));
+
+    row.append(text, select);
+    panel.appendChild(row);
+    return select;
+}
+
+function createCollapsible(title: string, collapsed = false): HTMLDetailsElement {
+    const details = document.createElement('details');
+    details.className = 'hud-panel__section';
+    details.open = !collapsed;
+    const summary = document.createElement('summary');
+    summary.className = 'hud-panel__summary';
+    summary.textContent = title;
+    details.appendChild(summary);
+    return details;
+}
+
+const isSettingKey = (key: string): key is keyof Settings => key in DEFAULT_SETTINGS;
+
+/** The control's saved value, or its default when nothing valid is saved. */
+function readControl(settings: SettingsStore, control: PanelControl): ControlValue {
+    const stored: unknown = isSettingKey(control.key) ? settings.get()[control.key] : settings.get().controls[control.key];
+    switch (control.type) {
+        case 'range':
+            return typeof stored === 'number' ? Math.min(Math.max(stored, control.min), control.max) : control.default;
+        case 'select':
+            return control.options.some(({ value }) => value === stored) ? stored as string : control.default;
+        default:
+            return typeof stored === typeof control.default ? stored as ControlValue : control.default;
+    }
+}
+
+/** Save several control values as one settings change, undoable when a history is given. */
+function writeControls(settings: SettingsStore, values: Array<[PanelControl, ControlValue]>, history?: SettingsHistory) {
+    const patch: Partial<Record<keyof Settings, unknown>> = {};
+    const controls = { ...settings.get().controls };
+    values.forEach(([control, value]) => {
+        if (isSettingKey(control.key)) patch[control.key] = value;
+        else controls[control.key] = value;
+    });
+    if (values.some(([control]) => !isSettingKey(control.key))) patch.controls = controls;
+    const write = () => settings.set(patch as Partial<Settings>);
+    if (history) history.record(write);
+    else write();
+}
+
+const notifyChange = (control: PanelControl, value: ControlValue) =>
+    (control.onChange as ((value: ControlValue) => void) | undefined)?.(value);
+
+/**
+ * Build a collapsible panel section from control descriptions. Values are read from and
+ * saved to `settings`; the section's Reset button restores every control's `default`.
+ * With a `history`, changes made here can be undone.
+ * Features can pass the result to `setupUIControls` via `customSections`, or let
+ * `sections` build it.
+ *
+ * @example
+ * ```ts
+ * createControlSection(settings, {
+ *     title: 'Fog',
+ *     controls: [{ key: 'fogFar', type: 'range', label: 'Distance', min: 20, max: 200, default: 80, onChange: (far) => { fog.far = far; } }],
+ * });
+ * ```
+ */
+export function createControlSection(settings: SettingsStore, section: PanelSection, history?: SettingsHistory): HTMLElement {
+    const details = createCollapsible(section.title, section.collapsed);
+
+    const rows = section.controls.map((control) => {
+        const id = `control-${control.key}`;
+        const write = (value: ControlValue) => writeControls(settings, [[control, value]], history);
+        let show: (value: ControlValue) => void;
+        switch (control.type) {
+            case 'range': {
+                const input = addRangeRow(details, control.label, {
+                    id,
+                    min: String(control.min),
+                    max: String(control.max),
+                    step: control.step === undefined ? undefined : String(control.step),
+                    value: String(control.default),
+                    ariaLabel: `${control.label} Slider`,
+                    onInput: () => write(parseFloat(input.value)),
+                });
+                show = (value) => { input.value = String(value); };
+                break;
+            }
+            case 'color': {
+                const input = createColorInput(id, control.default, `${control.label} Color Picker`);
+                input.addEventListener('input', () => write(input.value));
+                addColorRow(details, control.label, [input]);
+                show = (value) => { input.value = String(value); };
+                break;
+            }
+            case 'toggle': {
+                const input = addToggleRow(details, control.label, id, write);
+                show = (value) => { input.checked = value === true; };
+                break;
+            }
+            case 'select': {
+                const select = addSelectRow(details, control.label, id, control.options, write);
+                show = (value) => { select.value = String(value); };
+                break;
+            }
+        }
+        return { control, show, value: readControl(settings, control) };
+    });
+
+    const reset = createActionButton('Reset', () => writeControls(settings, section.controls.map((control) => [control, control.default]), history));
+    reset.classList.add('hud-panel__reset');
+    details.appendChild(reset);
+
+    rows.forEach((row) => {
+        row.show(row.value);
+        notifyChange(row.control, row.value);
+    });
+    settings.subscribe(() => rows.forEach((row) => {
+        const value = readControl(settings, row.control);
+        if (value === row.value) return;
+        row.value = value;
+        row.show(value);
+        notifyChange(row.control, value);
+    }));
+
+    return details;
+}
+
+/**
+ * Nav buttons plus the settings panel, built from `options.sections`. Control values are
+ * saved in `options.settings`; apply typed settings to the scene by subscribing to the
+ * store, feature settings via each control's `onChange`.
+ */
+export function setupUIControls(options: ControlsOptions) {
+    const { settings } = options;
+    const host = options.host ?? document.body;
+    const navControls = options.navControls ?? [];
 
     const wrapper = document.createElement('div');
     wrapper.className = 'hud-controls';
-    if (!options?.host) wrapper.classList.add('hud-controls--floating');
+    if (!options.host) wrapper.classList.add('hud-controls--floating');
 
     const nav = document.createElement('div');
     nav.className = 'hud-nav';
     wrapper.appendChild(nav);
 
+    // Branches of the current topic render before the fixed controls, which keep their place.
+    const branchGroup = document.createElement('div');
+    branchGroup.className = 'hud-nav__branches';
+    nav.appendChild(branchGroup);
+
     navControls.forEach(({ icon, aria, handler }) => {
         nav.appendChild(createIconButton(icon, aria, handler));
     });
 
+    // Autoplay dwell progress; hidden while autoplay is off.
+    const progress = document.createElement('div');
+    progress.className = 'hud-nav__progress';
+    progress.setAttribute('role', 'progressbar');
+    progress.setAttribute('aria-label', 'Autoplay progress');
+    progress.hidden = true;
+    const progressBar = document.createElement('span');
+    progressBar.className = 'hud-nav__progress-bar';
+    progress.appendChild(progressBar);
+    nav.appendChild(progress);
+
+    const setAutoplayProgress = (value: number | null, paused = false) => {
+        progress.hidden = value === null;
+        if (value === null) return;
+        progressBar.style.width = `${Math.round(value * 100)}%`;
+        progress.classList.toggle('hud-nav__progress--paused', paused);
+        progress.title = paused ? 'Autoplay paused' : 'Autoplay';
+        progress.setAttribute('aria-valuenow', String(Math.round(value * 100)));
+    };
+
+    const setBranches = (branches: BranchButton[]) => {
+        branchGroup.replaceChildren(...branches.map(({ label, title, onSelect }) => {
+            const button = createActionButton(label, onSelect);
+            button.className = 'hud-nav__branch';
+            if (title) button.title = title;
+            return button;
+        }));
+    };
+
     const panel = document.createElement('div');
     panel.className = 'hud-panel';
     wrapper.appendChild(panel);
@@ -130,161 +390,47 @@ export function setupUIControls(
     settingsButton.setAttribute('aria-expanded', 'false');
     nav.appendChild(settingsButton);
 
+    const sections = options.sections ?? [];
+    panel.append(
+        ...sections.map((section) => createControlSection(settings, section, options.history)),
+        ...(options.customSections ?? []).map(({ title, content, collapsed }) => {
+            const details = createCollapsible(title, collapsed);
+            details.appendChild(content);
+            return details;
+        }),
+    );
+
     const actions = document.createElement('div');
     actions.className = 'hud-panel__actions';
-
-    const darkModeButton = createActionButton('Toggle Dark/Light Mode', toggleCallback);
-    darkModeButton.id = 'toggle-button';
-    actions.appendChild(darkModeButton);
-
-    const startColorInput = createColorInput('gradient-start', '#000000', 'Start Color Picker');
-    const endColorInput = createColorInput('gradient-end', '#ffffff', 'End Color Picker');
-    const updateGradient = () => {
-        worldGradientCallback(startColorInput.value, endColorInput.value);
-    };
-    startColorInput.addEventListener('input', updateGradient);
-    endColorInput.addEventListener('input', updateGradient);
-
-    addColorRow(panel, 'Gradient', [startColorInput, endColorInput]);
-
-    const speedSlider = addRangeRow(panel, 'Speed', {
-        id: 'speed-slider',
-        min: '0',
-        max: '2000',
-        value: '100',
-        ariaLabel: 'Speed Slider',
-        onInput: (event: Event) => {
-            const target = event.target as HTMLInputElement;
-            speedCallback(parseInt(target.value, 10));
-        },
-    });
-
-    const lightColorInput = createColorInput('light-color', '#87cefa', 'Light Color Picker');
-    const intensitySlider = addRangeRow(panel, 'Light Intensity', {
-        id: 'intensity-slider',
-        min: '0',
-        max: '2',
-        step: '0.01',
-        value: '1',
-        ariaLabel: 'Light Intensity Slider',
-        onInput: (event: Event) => {
-            const target = event.target as HTMLInputElement;
-            lightContorlsCallback(lightColorInput.value, parseFloat(target.value));
-        },
-    });
-    lightColorInput.addEventListener('input', () => {
-        lightContorlsCallback(lightColorInput.value, parseFloat(intensitySlider.value));
-    });
-    addColorRow(panel, 'Lighting', [lightColorInput]);
-
-    const materialColorInput = createColorInput('material-color', '#ffffff', 'Material Color Picker');
-    addColorRow(panel, 'Material', [materialColorInput]);
-
-    let metalnessSlider: HTMLInputElement;
-    let roughnessSlider: HTMLInputElement;
-
-    const updateMaterial = () => {
-        cubeControls(
-            materialColorInput.value,
-            parseFloat(metalnessSlider.value),
-            parseFloat(roughnessSlider.value),
-        );
-    };
-
-    materialColorInput.addEventListener('input', updateMaterial);
-
-    metalnessSlider = addRangeRow(panel, 'Metalness', {
-        id: 'metalness-slider',
-        min: '0',
-        max: '1',
-        step: '0.01',
-        value: '0.5',
-        ariaLabel: 'Metalness Slider',
-        onInput: updateMaterial,
-    });
-
-    roughnessSlider = addRangeRow(panel, 'Roughness', {
-        id: 'roughness-slider',
-        min: '0',
-        max: '1',
-        step: '0.001',
-        value: '0.5',
-        ariaLabel: 'Roughness Slider',
-        onInput: updateMaterial,
-    });
-
-    const saveButton = createActionButton('Save Settings', () => {
-        saveSettings(
-            darkModeButton.textContent === 'Switch to Light Mode',
-            parseInt(speedSlider.value, 10),
-            startColorInput.value,
-            endColorInput.value,
-            lightColorInput.value,
-            parseFloat(intensitySlider.value),
-            materialColorInput.value,
-            parseFloat(metalnessSlider.value),
-            parseFloat(roughnessSlider.value),
-        );
+    const { history } = options;
+    if (history) {
+        const undo = createActionButton('Undo', history.undo);
+        undo.id = 'undo-button';
+        undo.title = 'Undo (Ctrl+Z)';
+        const redo = createActionButton('Redo', history.redo);
+        redo.id = 'redo-button';
+        redo.title = 'Redo (Ctrl+Shift+Z)';
+        const update = () => {
+            undo.disabled = !history.canUndo();
+            redo.disabled = !history.canRedo();
+        };
+        history.onChange(update);
+        update();
+        actions.append(undo, redo);
+    }
+    (options.actions ?? []).forEach(({ label, handler, id }) => {
+        const button = createActionButton(label, handler);
+        if (id) button.id = id;
+        actions.appendChild(button);
     });
-    saveButton.id = 'save-button';
-
-    const loadButton = createActionButton('Load Settings', () => {
-        const settings = loadSettings();
-        if (!settings) return;
-
-        darkModeButton.textContent = settings.darkMode ? 'Switch to Light Mode' : 'Switch to Dark Mode';
-        speedSlider.value = String(settings.speed);
-        startColorInput.value = settings.startColor;
-        endColorInput.value = settings.endColor;
-        lightColorInput.value = settings.lightColor;
-        intensitySlider.value = String(settings.lightIntensity);
-        materialColorInput.value = settings.materialColor;
-        metalnessSlider.value = String(settings.metalness);
-        roughnessSlider.value = String(settings.roughness);
-
-        speedCallback(settings.speed);
-        worldGradientCallback(settings.startColor, settings.endColor);
-        lightContorlsCallback(settings.lightColor, settings.lightIntensity);
-        cubeControls(settings.materialColor, settings.metalness, settings.roughness);
+    const resetAll = createActionButton('Reset All', () => {
+        writeControls(settings, sections.flatMap(({ controls }) => controls.map((control): [PanelControl, ControlValue] => [control, control.default])), history);
     });
-    loadButton.id = 'load-button';
-
-    actions.append(darkModeButton, saveButton, loadButton);
+    resetAll.id = 'reset-button';
+    actions.appendChild(resetAll);
     panel.appendChild(actions);
 
     host.appendChild(wrapper);
-}
 
-export function saveSettings(
-    darkMode: boolean,
-    speed: number,
-    startColor: string,
-    endColor: string,
-    lightColor: string,
-    lightIntensity: number,
-    materialColor: string,
-    metalness: number,
-    roughness: number,
-) {
-    const settings = {
-        darkMode,
-        speed,
-        startColor,
-        endColor,
-        lightColor,
-        lightIntensity,
-        materialColor,
-        metalness,
-        roughness,
-    };
-    console.log('Saving settings to session storage', settings);
-    sessionStorage.setItem('settings', JSON.stringify(settings));
+    return { setBranches, setAutoplayProgress, togglePanel };
 }
-
-const loadSettings = () => {
-    const savedSettings = sessionStorage.getItem('settings');
-    if (savedSettings) {
-        return JSON.parse(savedSettings);
-    }
-    return null;
-};
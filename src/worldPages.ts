@@ -1,46 +1,175 @@
 import * as THREE from 'three';
 import type { RenderPagePayload } from './topicLoader';
+import { InteractionManager } from './InteractionManager';
 
 type AnchorResolver = (anchorId: string, out: THREE.Vector3) => boolean;
 
+/**
+ * Colours pages are drawn with; any CSS colour string works.
+ */
+export type PagePalette = {
+    background: string;
+    text: string;
+    link: string;
+    inlineCode: string;
+    inlineCodeBackground: string;
+    codeText: string;
+    codeBackground: string;
+    placeholder: string;
+    scrollbar: string;
+};
+
+export const DEFAULT_PAGE_PALETTE: Readonly<PagePalette> = {
+    background: 'rgba(12, 12, 20, 0.85)',
+    text: '#ffffff',
+    link: '#7cc4ff',
+    inlineCode: '#ffd580',
+    inlineCodeBackground: 'rgba(255, 255, 255, 0.12)',
+    codeText: '#e6e6e6',
+    codeBackground: 'rgba(255, 255, 255, 0.08)',
+    placeholder: 'rgba(255, 255, 255, 0.5)',
+    scrollbar: 'rgba(255, 255, 255, 0.35)',
+};
+
+/**
+ * Optional behaviour for world pages.
+ * @property {(topicId: string) => void} [onInternalLink] Called for `#topic-id` links instead of changing the URL.
+ * @property {number} [maxPageHeight] Canvas height in px above which a page scrolls instead of growing.
+ * @property {PagePalette} [palette] Initial page colours; change them later with `setPalette`.
+ */
+export type WorldPageOptions = {
+    onInternalLink?: (topicId: string) => void;
+    maxPageHeight?: number;
+    palette?: PagePalette;
+};
+
 type ManagedPanel = {
     id: string;
+    payload: RenderPagePayload;
     mesh: THREE.Mesh<THREE.PlaneGeometry, THREE.MeshBasicMaterial>;
     texture: THREE.CanvasTexture;
+    page: RenderedPage;
+    scrollY: number;
     fallbackTarget: THREE.Vector3;
     anchorId?: string;
     isActive: boolean;
+    removeInteractions: () => void;
 };
 
 type PanelMap = Map<string, ManagedPanel>;
 
-type LinesLayout = Array<{ text: string; font: string; lineHeight: number }>;
+/** Canvas and layout backing a page texture, kept so it can be redrawn on scroll and hit-tested. */
+type RenderedPage = {
+    canvas: HTMLCanvasElement;
+    layout: PageLayout;
+    palette: PagePalette;
+    width: number;
+    height: number;
+    viewportHeight: number;
+    dpr: number;
+};
 
 const PX_TO_WORLD = 0.004;
 const PADDING_X = 32;
 const PADDING_Y = 24;
 const MAX_CANVAS_WIDTH = 600;
+const DEFAULT_MAX_PAGE_HEIGHT = 720;
+const SCROLLBAR_WIDTH = 4;
 
 export function createWorldPageManager(
     scene: THREE.Scene,
     camera: THREE.Camera,
     resolveAnchor: AnchorResolver,
+    options: WorldPageOptions = {},
 ) {
     const panels: PanelMap = new Map();
     const group = new THREE.Group();
     group.name = 'topic-pages';
     scene.add(group);
 
+    const interactions = InteractionManager.getInstance();
+    const maxPageHeight = options.maxPageHeight ?? DEFAULT_MAX_PAGE_HEIGHT;
+    let palette = options.palette ?? DEFAULT_PAGE_PALETTE;
+    let hoveredPanel: ManagedPanel | null = null;
+    /**
+     * One image-load callback per page id, so re-registering a page while its images load
+     * (a palette change, an HMR update) doesn't queue another full re-render per image.
+     */
+    const invalidators = new Map<string, () => void>();
+
     const anchorPosition = new THREE.Vector3();
     const targetPosition = new THREE.Vector3();
 
-    const registerPage = ({ id, title, content, fallbackTarget, anchorId }: RenderPagePayload) => {
+    const followLink = (href: string) => {
+        const internal = href.match(/^#\/?(.+)$/);
+        if (internal && options.onInternalLink) {
+            options.onInternalLink(decodeURIComponent(internal[1]));
+            return;
+        }
+        window.open(href, '_blank', 'noopener');
+    };
+
+    const handleClick = (panel: ManagedPanel, hit: THREE.Intersection | null) => {
+        if (!hit?.uv) return;
+        const href = hitTestLink(panel.page, panel.scrollY, hit.uv);
+        if (href) followLink(href);
+    };
+
+    const scrollBy = (panel: ManagedPanel, deltaY: number) => {
+        const maxScroll = Math.max(0, panel.page.layout.height - panel.page.viewportHeight);
+        const next = THREE.MathUtils.clamp(panel.scrollY + deltaY, 0, maxScroll);
+        if (next === panel.scrollY) return;
+        panel.scrollY = next;
+        drawPage(panel.page, panel.scrollY);
+        panel.texture.needsUpdate = true;
+    };
+
+    const handleWheel = (event: WheelEvent) => {
+        if (!hoveredPanel) return;
+        const scale = event.deltaMode === WheelEvent.DOM_DELTA_LINE ? VARIANT_SPECS.body.lineHeight : 1;
+        scrollBy(hoveredPanel, event.deltaY * scale);
+    };
+    window.addEventListener('wheel', handleWheel, { passive: true });
+
+    const removePage = (id: string) => {
+        const panel = panels.get(id);
+        if (!panel) return;
+        if (hoveredPanel === panel) hoveredPanel = null;
+        panel.removeInteractions();
+        panel.mesh.geometry.dispose();
+        panel.mesh.material.map?.dispose();
+        panel.mesh.material.dispose();
+        group.remove(panel.mesh);
+        panels.delete(id);
+    };
+
+    const registerPage = (payload: RenderPagePayload) => {
+        const { id, title, content, fallbackTarget, anchorId } = payload;
         const html = content.trim();
-        if (!html) return;
+        if (!html) {
+            removePage(id);
+            return;
+        }
 
         const existing = panels.get(id);
-        const { texture, width, height } = renderHtmlToTexture(`<h3>${title}</h3>${html}`);
-        const planeGeometry = new THREE.PlaneGeometry(width * PX_TO_WORLD, height * PX_TO_WORLD);
+        // Re-render once late-loading images have decoded so they replace their placeholders.
+        // Use the panel's current payload: the content may have changed while the image loaded.
+        let invalidate = invalidators.get(id);
+        if (!invalidate) {
+            invalidate = () => {
+                const panel = panels.get(id);
+                if (panel) registerPage(panel.payload);
+            };
+            invalidators.set(id, invalidate);
+        }
+        const heading = document.createElement('h3');
+        heading.textContent = title;
+        const page = renderPage(`${heading.outerHTML}${html}`, maxPageHeight, palette, invalidate);
+        const scrollY = Math.min(existing?.scrollY ?? 0, Math.max(0, page.layout.height - page.viewportHeight));
+        drawPage(page, scrollY);
+
+        const texture = createPageTexture(page.canvas);
+        const planeGeometry = new THREE.PlaneGeometry(page.width * PX_TO_WORLD, page.height * PX_TO_WORLD);
         const material = new THREE.MeshBasicMaterial({
             map: texture,
             transparent: true,
@@ -54,6 +183,9 @@ export function createWorldPageManager(
             existing.mesh.geometry = planeGeometry;
             existing.mesh.material = material;
             existing.texture = texture;
+            existing.page = page;
+            existing.payload = payload;
+            existing.scrollY = scrollY;
             existing.fallbackTarget.copy(fallbackTarget);
             existing.anchorId = anchorId;
         } else {
@@ -63,14 +195,25 @@ export function createWorldPageManager(
             mesh.frustumCulled = false;
             mesh.userData.topicId = id;
             group.add(mesh);
-            panels.set(id, {
+
+            const panel: ManagedPanel = {
                 id,
+                payload,
                 mesh,
                 texture,
+                page,
+                scrollY,
                 fallbackTarget: fallbackTarget.clone(),
                 anchorId,
                 isActive: false,
+                removeInteractions: () => interactions.unregister(mesh),
+            };
+            interactions.on(mesh, 'click', (_event, hit) => handleClick(panel, hit));
+            interactions.on(mesh, 'hoverstart', () => { hoveredPanel = panel; });
+            interactions.on(mesh, 'hoverend', () => {
+                if (hoveredPanel === panel) hoveredPanel = null;
             });
+            panels.set(id, panel);
         }
     };
 
@@ -97,21 +240,31 @@ export function createWorldPageManager(
         });
     };
 
+    /** Redraw every page with new colours, e.g. after a theme change. */
+    const setPalette = (next: PagePalette) => {
+        if (next === palette) return;
+        palette = next;
+        Array.from(panels.values(), (panel) => panel.payload).forEach(registerPage);
+    };
+
+    /** Current world position of every page panel, e.g. for framing them all. */
+    const getPagePositions = () => Array.from(panels.values(), (panel) => panel.mesh.position.clone());
+
     const dispose = () => {
-        panels.forEach((panel) => {
-            panel.mesh.geometry.dispose();
-            panel.mesh.material.map?.dispose();
-            panel.mesh.material.dispose();
-            group.remove(panel.mesh);
-        });
-        panels.clear();
+        window.removeEventListener('wheel', handleWheel);
+        Array.from(panels.keys()).forEach(removePage);
+        invalidators.clear();
         scene.remove(group);
     };
 
-    return { registerPage, setActivePage, update, dispose };
+    return { registerPage, removePage, setActivePage, setPalette, getPagePositions, update, dispose };
 }
 
-function renderHtmlToTexture(html: string): { texture: THREE.CanvasTexture; width: number; height: number } {
+/**
+ * Lay out topic HTML on a fresh canvas. Pages taller than `maxHeight` keep the full
+ * layout but only a `maxHeight` window of it is drawn, offset by the scroll position.
+ */
+function renderPage(html: string, maxHeight: number, palette: PagePalette, onInvalidate?: () => void): RenderedPage {
     const canvas = document.createElement('canvas');
     const ctx = canvas.getContext('2d');
     if (!ctx) {
@@ -119,169 +272,543 @@ function renderHtmlToTexture(html: string): { texture: THREE.CanvasTexture; widt
     }
 
     const blocks = extractBlocks(html);
-    const lines = layoutBlocks(ctx, blocks, MAX_CANVAS_WIDTH - PADDING_X * 2);
+    const layout = layoutBlocks(ctx, blocks, MAX_CANVAS_WIDTH - PADDING_X * 2, palette, onInvalidate);
 
-    const contentHeight = lines.reduce((sum, line) => sum + line.lineHeight, 0);
     const canvasWidth = MAX_CANVAS_WIDTH;
-    const canvasHeight = Math.max(PADDING_Y * 2 + contentHeight, 128);
+    const canvasHeight = Math.min(Math.max(PADDING_Y * 2 + layout.height, 128), Math.max(maxHeight, 128));
     const dpr = Math.min(window.devicePixelRatio ?? 1, 2);
 
     canvas.width = Math.round(canvasWidth * dpr);
     canvas.height = Math.round(canvasHeight * dpr);
 
-    const drawCtx = canvas.getContext('2d');
+    return {
+        canvas,
+        layout,
+        palette,
+        width: canvasWidth,
+        height: canvasHeight,
+        viewportHeight: canvasHeight - PADDING_Y * 2,
+        dpr,
+    };
+}
+
+/** Redraw a rendered page at the given scroll offset. */
+function drawPage(page: RenderedPage, scrollY: number) {
+    const drawCtx = page.canvas.getContext('2d');
     if (!drawCtx) {
         throw new Error('Unable to acquire 2D context for drawing');
     }
 
-    drawCtx.scale(dpr, dpr);
+    drawCtx.setTransform(page.dpr, 0, 0, page.dpr, 0, 0);
+    drawCtx.clearRect(0, 0, page.width, page.height);
     drawCtx.imageSmoothingEnabled = true;
     drawCtx.imageSmoothingQuality = 'high';
 
-    drawRoundedRect(drawCtx, 0, 0, canvasWidth, canvasHeight, 20, 'rgba(12, 12, 20, 0.85)');
-
-    let cursorY = PADDING_Y;
-    lines.forEach(({ text, font, lineHeight }) => {
-        drawCtx.font = font;
-        drawCtx.fillStyle = '#ffffff';
-        drawCtx.textBaseline = 'top';
-        drawCtx.fillText(text, PADDING_X, cursorY);
-        cursorY += lineHeight;
-    });
+    drawRoundedRect(drawCtx, 0, 0, page.width, page.height, 20, page.palette.background);
+
+    drawCtx.save();
+    drawCtx.beginPath();
+    drawCtx.rect(0, PADDING_Y / 2, page.width, page.height - PADDING_Y);
+    drawCtx.clip();
+    drawCtx.translate(PADDING_X, PADDING_Y - scrollY);
+    drawLayout(drawCtx, page.layout, page.palette);
+    drawCtx.restore();
+
+    const overflow = page.layout.height - page.viewportHeight;
+    if (overflow > 0) {
+        const trackHeight = page.height - PADDING_Y * 2;
+        const thumbHeight = Math.max(24, trackHeight * (page.viewportHeight / page.layout.height));
+        const thumbY = PADDING_Y + (trackHeight - thumbHeight) * (scrollY / overflow);
+        drawRoundedRect(drawCtx, page.width - PADDING_X / 2 - SCROLLBAR_WIDTH / 2, thumbY, SCROLLBAR_WIDTH, thumbHeight, 2, page.palette.scrollbar);
+    }
+}
 
+function createPageTexture(canvas: HTMLCanvasElement): THREE.CanvasTexture {
     const texture = new THREE.CanvasTexture(canvas);
     texture.colorSpace = THREE.SRGBColorSpace;
     texture.anisotropy = Math.min(8, texture.anisotropy || 1);
     texture.needsUpdate = true;
+    return texture;
+}
 
-    return {
-        texture,
-        width: canvasWidth,
-        height: canvasHeight,
-    };
+/**
+ * Map a UV coordinate on a page mesh back into the layout and return the href of the
+ * link fragment under it, if any.
+ */
+function hitTestLink(page: RenderedPage, scrollY: number, uv: THREE.Vector2): string | null {
+    const canvasX = uv.x * page.width;
+    const canvasY = (1 - uv.y) * page.height;
+    if (canvasY < PADDING_Y / 2 || canvasY > page.height - PADDING_Y / 2) return null;
+
+    const x = canvasX - PADDING_X;
+    const y = canvasY - PADDING_Y + scrollY;
+
+    for (const item of page.layout.items) {
+        if (item.kind !== 'text' || y < item.y || y > item.y + item.height) continue;
+        const fragment = item.fragments.find((candidate) => candidate.href && x >= candidate.x && x <= candidate.x + candidate.width);
+        return fragment?.href ?? null;
+    }
+    return null;
 }
 
-type BlockSpec = { text: string; font: string; lineHeight: number };
+/** Inline formatting carried by a run of text. */
+type RunStyle = {
+    bold: boolean;
+    italic: boolean;
+    code: boolean;
+    underline: boolean;
+    color?: string;
+    href?: string;
+};
+
+type InlineRun = { text: string; style: RunStyle };
+
+type HtmlBlock =
+    | { kind: 'text'; variant: 'heading' | 'body' | 'list'; runs: InlineRun[]; indent: number; marker?: string }
+    | { kind: 'code'; text: string; indent: number }
+    | { kind: 'image'; src: string; alt: string; width?: number; height?: number; indent: number };
+
+type VariantSpec = { size: number; weight: number; lineHeight: number };
 
-type HtmlBlock = {
+/** A measured piece of a text line sharing one style; `x` is relative to the content box. */
+type LayoutFragment = {
     text: string;
-    variant: 'heading' | 'body' | 'list';
+    x: number;
+    width: number;
+    font: string;
+    size: number;
+    color: string;
+    underline: boolean;
+    background?: string;
+    href?: string;
 };
 
+type LayoutItem =
+    | { kind: 'text'; y: number; height: number; fragments: LayoutFragment[] }
+    | { kind: 'code'; y: number; height: number; x: number; width: number; lines: string[] }
+    | { kind: 'image'; y: number; height: number; x: number; width: number; image: HTMLImageElement | null; alt: string };
+
+type PageLayout = { items: LayoutItem[]; height: number };
+
+const BODY_FONT = '"Inter", system-ui';
+const MONO_FONT = 'ui-monospace, SFMono-Regular, Menlo, Consolas, monospace';
+const LIST_INDENT = 28;
+const CODE_PADDING = 12;
+const CODE_FONT = `400 15px ${MONO_FONT}`;
+const CODE_LINE_HEIGHT = 22;
+const IMAGE_PLACEHOLDER_HEIGHT = 160;
+
+const VARIANT_SPECS: Record<'heading' | 'body' | 'list', VariantSpec> = {
+    heading: { size: 28, weight: 600, lineHeight: 36 },
+    body: { size: 18, weight: 400, lineHeight: 28 },
+    list: { size: 18, weight: 400, lineHeight: 26 },
+};
+
+const DEFAULT_STYLE: RunStyle = { bold: false, italic: false, code: false, underline: false };
+
+const BLOCK_TAGS = new Set([
+    'p', 'div', 'section', 'article', 'header', 'footer', 'aside', 'blockquote', 'figure', 'figcaption',
+    'ul', 'ol', 'li', 'pre', 'hr', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6',
+]);
+
 function extractBlocks(html: string): HtmlBlock[] {
     const container = document.createElement('div');
     container.innerHTML = html;
     const blocks: HtmlBlock[] = [];
+    walkBlock(container, blocks, 0, 'body');
+    return blocks;
+}
 
-    const walk = (node: ChildNode) => {
-        if (node.nodeType === Node.TEXT_NODE) {
-            const text = node.textContent?.replace(/\s+/g, ' ').trim();
-            if (text) {
-                blocks.push({ text, variant: 'body' });
-            }
+/**
+ * Collect the children of a block-level element, buffering inline content into runs
+ * and flushing them whenever a nested block (list, code, image, paragraph) starts.
+ */
+function walkBlock(parent: Node, blocks: HtmlBlock[], indent: number, variant: 'body' | 'list') {
+    let runs: InlineRun[] = [];
+    const flush = () => {
+        const normalized = normalizeRuns(runs);
+        if (normalized.length > 0) blocks.push({ kind: 'text', variant, runs: normalized, indent });
+        runs = [];
+    };
+    const pushImage = (img: HTMLImageElement) => {
+        flush();
+        blocks.push(toImageBlock(img, indent));
+    };
+
+    parent.childNodes.forEach((child) => {
+        if (!(child instanceof HTMLElement) || (!BLOCK_TAGS.has(child.tagName.toLowerCase()) && child.tagName !== 'IMG')) {
+            collectInline(child, DEFAULT_STYLE, runs, pushImage);
             return;
         }
 
-        if (!(node instanceof HTMLElement)) return;
-
-        const tag = node.tagName.toLowerCase();
+        flush();
+        const tag = child.tagName.toLowerCase();
 
         if (/^h[1-6]$/.test(tag)) {
-            const text = node.textContent?.replace(/\s+/g, ' ').trim();
-            if (text) {
-                blocks.push({ text, variant: 'heading' });
-            }
-            return;
+            const headingRuns: InlineRun[] = [];
+            collectInline(child, DEFAULT_STYLE, headingRuns, (img) => blocks.push(toImageBlock(img, indent)));
+            const normalized = normalizeRuns(headingRuns);
+            if (normalized.length > 0) blocks.push({ kind: 'text', variant: 'heading', runs: normalized, indent });
+        } else if (tag === 'ul' || tag === 'ol') {
+            walkList(child, blocks, indent);
+        } else if (tag === 'pre') {
+            const text = (child.textContent ?? '').replace(/^\n/, '').replace(/\s+$/, '');
+            if (text) blocks.push({ kind: 'code', text, indent });
+        } else if (tag === 'img') {
+            blocks.push(toImageBlock(child as HTMLImageElement, indent));
+        } else if (tag !== 'hr') {
+            walkBlock(child, blocks, indent, variant);
         }
+    });
 
-        if (tag === 'ul' || tag === 'ol') {
-            Array.from(node.children).forEach((li) => {
-                const text = li.textContent?.replace(/\s+/g, ' ').trim();
-                if (text) {
-                    blocks.push({ text: `• ${text}`, variant: 'list' });
-                }
-            });
-            return;
-        }
+    flush();
+}
 
-        if (tag === 'p' || tag === 'div' || tag === 'section') {
-            const text = node.textContent?.replace(/\s+/g, ' ').trim();
-            if (text) {
-                blocks.push({ text, variant: 'body' });
-            }
-            return;
+/**
+ * Emit one or more blocks per list item, attaching the bullet or ordinal marker to the
+ * item's first block. Nested lists recurse with a deeper indent.
+ */
+function walkList(list: HTMLElement, blocks: HtmlBlock[], indent: number) {
+    const ordered = list.tagName === 'OL';
+    let ordinal = ordered ? Number(list.getAttribute('start') ?? 1) : 0;
+
+    Array.from(list.children).forEach((item) => {
+        if (item.tagName !== 'LI') return;
+        const value = item.getAttribute('value');
+        if (ordered && value !== null && !Number.isNaN(Number(value))) ordinal = Number(value);
+        const marker = ordered ? `${ordinal++}.` : '•';
+
+        const firstIndex = blocks.length;
+        walkBlock(item, blocks, indent + 1, 'list');
+
+        const first = blocks[firstIndex];
+        if (first && first.kind === 'text') {
+            first.marker = marker;
+        } else {
+            blocks.splice(firstIndex, 0, { kind: 'text', variant: 'list', runs: [], indent: indent + 1, marker });
         }
+    });
+}
 
-        Array.from(node.childNodes).forEach(walk);
-    };
+function collectInline(node: Node, style: RunStyle, runs: InlineRun[], onImage: (img: HTMLImageElement) => void) {
+    if (node.nodeType === Node.TEXT_NODE) {
+        const text = node.textContent ?? '';
+        if (text) runs.push({ text, style });
+        return;
+    }
 
-    if (container.childNodes.length === 0) {
-        const text = container.textContent?.replace(/\s+/g, ' ').trim();
-        if (text) blocks.push({ text, variant: 'body' });
-    } else {
-        Array.from(container.childNodes).forEach(walk);
+    if (!(node instanceof HTMLElement)) return;
+
+    const tag = node.tagName.toLowerCase();
+    if (tag === 'br') {
+        runs.push({ text: '\n', style });
+        return;
+    }
+    if (tag === 'img') {
+        onImage(node as HTMLImageElement);
+        return;
     }
 
-    return blocks;
+    const next: RunStyle = { ...style };
+    if (tag === 'strong' || tag === 'b') next.bold = true;
+    if (tag === 'em' || tag === 'i' || tag === 'cite') next.italic = true;
+    if (tag === 'code' || tag === 'kbd' || tag === 'samp') next.code = true;
+    if (tag === 'u') next.underline = true;
+    if (tag === 'a') {
+        next.href = node.getAttribute('href') ?? undefined;
+        next.underline = true;
+    }
+    if (node.style.color) next.color = node.style.color;
+    if (node.style.fontWeight === 'bold' || Number(node.style.fontWeight) >= 600) next.bold = true;
+    if (node.style.fontStyle === 'italic') next.italic = true;
+
+    node.childNodes.forEach((child) => collectInline(child, next, runs, onImage));
 }
 
-function layoutBlocks(ctx: CanvasRenderingContext2D, blocks: HtmlBlock[], maxWidth: number): LinesLayout {
-    const lines: LinesLayout = [];
+/** Collapse HTML whitespace across run boundaries and trim the ends of the block. */
+function normalizeRuns(runs: InlineRun[]): InlineRun[] {
+    const result: InlineRun[] = [];
+    let pendingSpace = false;
+    let atLineStart = true;
+
+    runs.forEach(({ text, style }) => {
+        if (text === '\n') {
+            result.push({ text, style });
+            pendingSpace = false;
+            atLineStart = true;
+            return;
+        }
 
-    blocks.forEach((block, index) => {
-        const spec = blockToSpec(block);
-        const wrapped = wrapText(ctx, block.text, spec, maxWidth);
-        lines.push(...wrapped);
-        if (index !== blocks.length - 1) {
-            lines.push({ text: '', font: spec.font, lineHeight: spec.lineHeight * 0.5 });
+        const collapsed = text.replace(/\s+/g, ' ');
+        const leading = collapsed.startsWith(' ');
+        const body = collapsed.trim();
+        if (!body) {
+            pendingSpace = pendingSpace || (collapsed.length > 0 && !atLineStart);
+            return;
         }
+
+        const prefix = (pendingSpace || leading) && !atLineStart ? ' ' : '';
+        result.push({ text: prefix + body, style });
+        pendingSpace = collapsed.endsWith(' ');
+        atLineStart = false;
     });
 
-    return lines;
+    while (result.length > 0 && result[result.length - 1].text === '\n') result.pop();
+    return result;
 }
 
-function blockToSpec(block: HtmlBlock): BlockSpec {
-    switch (block.variant) {
-        case 'heading':
-            return { text: block.text, font: '600 28px "Inter", system-ui', lineHeight: 36 };
-        case 'list':
-            return { text: block.text, font: '400 18px "Inter", system-ui', lineHeight: 26 };
-        default:
-            return { text: block.text, font: '400 18px "Inter", system-ui', lineHeight: 28 };
+function toImageBlock(img: HTMLImageElement, indent: number): HtmlBlock {
+    const width = Number(img.getAttribute('width'));
+    const height = Number(img.getAttribute('height'));
+    return {
+        kind: 'image',
+        src: img.getAttribute('src') ?? '',
+        alt: img.getAttribute('alt') ?? '',
+        width: width > 0 ? width : undefined,
+        height: height > 0 ? height : undefined,
+        indent,
+    };
+}
+
+function runFont(style: RunStyle, spec: VariantSpec): { font: string; size: number } {
+    if (style.code) {
+        const size = Math.round(spec.size * 0.88);
+        return { font: `${style.bold ? 600 : 400} ${size}px ${MONO_FONT}`, size };
     }
+    const weight = style.bold ? Math.max(spec.weight, 700) : spec.weight;
+    return { font: `${style.italic ? 'italic ' : ''}${weight} ${spec.size}px ${BODY_FONT}`, size: spec.size };
 }
 
-function wrapText(
+function runColor(style: RunStyle, palette: PagePalette): string {
+    if (style.color) return style.color;
+    if (style.href) return palette.link;
+    if (style.code) return palette.inlineCode;
+    return palette.text;
+}
+
+function layoutBlocks(
     ctx: CanvasRenderingContext2D,
-    text: string,
-    spec: BlockSpec,
+    blocks: HtmlBlock[],
     maxWidth: number,
-): LinesLayout {
-    ctx.font = spec.font;
-    const words = text.split(/\s+/);
-    const lines: LinesLayout = [];
-    let current = '';
+    palette: PagePalette,
+    onImageLoad?: () => void,
+): PageLayout {
+    const items: LayoutItem[] = [];
+    let cursorY = 0;
 
-    words.forEach((word) => {
-        const next = current.length === 0 ? word : `${current} ${word}`;
-        const metrics = ctx.measureText(next);
-        if (metrics.width > maxWidth && current.length > 0) {
-            lines.push({ text: current, font: spec.font, lineHeight: spec.lineHeight });
-            current = word;
+    blocks.forEach((block, index) => {
+        const x = block.indent * LIST_INDENT;
+        const available = maxWidth - x;
+        let gap = VARIANT_SPECS.body.lineHeight * 0.5;
+
+        if (block.kind === 'text') {
+            const spec = VARIANT_SPECS[block.variant];
+            const lines = wrapRuns(ctx, block.runs, spec, available, palette);
+            if (block.marker) {
+                const { font, size } = runFont(DEFAULT_STYLE, spec);
+                ctx.font = font;
+                const width = ctx.measureText(block.marker).width;
+                lines[0].unshift({
+                    text: block.marker, x: -width - 8, width, font, size,
+                    color: palette.text, underline: false,
+                });
+            }
+            lines.forEach((fragments) => {
+                fragments.forEach((fragment) => { fragment.x += x; });
+                items.push({ kind: 'text', y: cursorY, height: spec.lineHeight, fragments });
+                cursorY += spec.lineHeight;
+            });
+            gap = spec.lineHeight * 0.5;
+        } else if (block.kind === 'code') {
+            ctx.font = CODE_FONT;
+            const lines = block.text.split('\n').flatMap((line) => wrapChars(ctx, line, available - CODE_PADDING * 2));
+            const height = lines.length * CODE_LINE_HEIGHT + CODE_PADDING * 2;
+            items.push({ kind: 'code', y: cursorY, height, x, width: available, lines });
+            cursorY += height;
         } else {
-            current = next;
+            const image = loadImage(block.src, onImageLoad);
+            const naturalWidth = image?.naturalWidth || block.width;
+            const naturalHeight = image?.naturalHeight || block.height;
+            let width = available;
+            let height = IMAGE_PLACEHOLDER_HEIGHT;
+            if (naturalWidth && naturalHeight) {
+                width = Math.min(available, naturalWidth);
+                height = naturalHeight * (width / naturalWidth);
+            }
+            items.push({ kind: 'image', y: cursorY, height, x, width, image, alt: block.alt });
+            cursorY += height;
         }
+
+        if (index !== blocks.length - 1) cursorY += gap;
     });
 
-    if (current.length > 0) {
-        lines.push({ text: current, font: spec.font, lineHeight: spec.lineHeight });
+    return { items, height: cursorY };
+}
+
+/**
+ * Greedy word wrap across styled runs. Each returned line is a list of fragments where
+ * adjacent words with the same style are merged so they draw with a single fillText.
+ */
+function wrapRuns(ctx: CanvasRenderingContext2D, runs: InlineRun[], spec: VariantSpec, maxWidth: number, palette: PagePalette): LayoutFragment[][] {
+    const lines: LayoutFragment[][] = [[]];
+    let cursorX = 0;
+
+    const breakLine = () => {
+        lines.push([]);
+        cursorX = 0;
+    };
+
+    runs.forEach(({ text, style }) => {
+        if (text === '\n') {
+            breakLine();
+            return;
+        }
+
+        const { font, size } = runFont(style, spec);
+        const color = runColor(style, palette);
+        ctx.font = font;
+
+        text.split(/(\s+)/).forEach((token) => {
+            if (!token) return;
+            const isSpace = /^\s+$/.test(token);
+            if (isSpace && cursorX === 0) return;
+
+            const width = ctx.measureText(token).width;
+            if (!isSpace && cursorX > 0 && cursorX + width > maxWidth) {
+                const line = lines[lines.length - 1];
+                const last = line[line.length - 1];
+                if (last && /\s$/.test(last.text)) {
+                    const trimmed = last.text.replace(/\s+$/, '');
+                    if (trimmed) {
+                        ctx.font = last.font;
+                        last.width = ctx.measureText(trimmed).width;
+                        last.text = trimmed;
+                        ctx.font = font;
+                    } else {
+                        line.pop();
+                    }
+                }
+                breakLine();
+            }
+
+            // Separating spaces never carry underline, background or link targets.
+            const underline = !isSpace && style.underline;
+            const background = !isSpace && style.code ? palette.inlineCodeBackground : undefined;
+            const href = isSpace ? undefined : style.href;
+
+            const line = lines[lines.length - 1];
+            const last = line[line.length - 1];
+            if (last && last.font === font && last.color === color && last.href === href
+                && last.underline === underline && last.background === background) {
+                last.text += token;
+                last.width += width;
+            } else {
+                line.push({ text: token, x: cursorX, width, font, size, color, underline, background, href });
+            }
+            cursorX += width;
+        });
+    });
+
+    return lines;
+}
+
+/** Hard-wrap preformatted text by characters so code never overflows the page. */
+function wrapChars(ctx: CanvasRenderingContext2D, line: string, maxWidth: number): string[] {
+    const expanded = line.replace(/\t/g, '    ');
+    if (ctx.measureText(expanded).width <= maxWidth) return [expanded];
+
+    const lines: string[] = [];
+    let current = '';
+    for (const char of expanded) {
+        if (current && ctx.measureText(current + char).width > maxWidth) {
+            lines.push(current);
+            current = '';
+        }
+        current += char;
     }
+    lines.push(current);
+    return lines;
+}
 
-    if (lines.length === 0) {
-        lines.push({ text: '', font: spec.font, lineHeight: spec.lineHeight });
+const imageCache = new Map<string, HTMLImageElement>();
+const imageListeners = new Map<string, Set<() => void>>();
+
+/**
+ * Fetch (or reuse) an image for page rendering. Returns the element once it has decoded,
+ * or null while loading/after failing; `onLoad` fires once so the page can re-render.
+ */
+function loadImage(src: string, onLoad?: () => void): HTMLImageElement | null {
+    if (!src) return null;
+
+    let image = imageCache.get(src);
+    if (!image) {
+        image = new Image();
+        // Cross-origin images must allow CORS, otherwise the canvas is tainted and cannot be uploaded to WebGL.
+        image.crossOrigin = 'anonymous';
+        imageCache.set(src, image);
+        const notify = () => {
+            imageListeners.get(src)?.forEach((listener) => listener());
+            imageListeners.delete(src);
+        };
+        image.addEventListener('load', notify, { once: true });
+        image.addEventListener('error', () => {
+            console.warn(`Failed to load page image ${src}`);
+            imageListeners.delete(src);
+        }, { once: true });
+        image.src = src;
     }
 
-    return lines;
+    if (image.complete && image.naturalWidth > 0) return image;
+    if (!image.complete && onLoad) {
+        const listeners = imageListeners.get(src) ?? new Set();
+        listeners.add(onLoad);
+        imageListeners.set(src, listeners);
+    }
+    return null;
+}
+
+function drawLayout(ctx: CanvasRenderingContext2D, layout: PageLayout, palette: PagePalette) {
+    ctx.textBaseline = 'top';
+
+    layout.items.forEach((item) => {
+        if (item.kind === 'text') {
+            item.fragments.forEach((fragment) => {
+                const textY = item.y + (item.height - fragment.size) / 2;
+                if (fragment.background) {
+                    drawRoundedRect(ctx, fragment.x - 3, textY - 3, fragment.width + 6, fragment.size + 6, 4, fragment.background);
+                }
+                ctx.font = fragment.font;
+                ctx.fillStyle = fragment.color;
+                ctx.fillText(fragment.text, fragment.x, textY);
+                if (fragment.underline) {
+                    ctx.fillRect(fragment.x, textY + fragment.size + 1, fragment.width, 1.5);
+                }
+            });
+            return;
+        }
+
+        if (item.kind === 'code') {
+            drawRoundedRect(ctx, item.x, item.y, item.width, item.height, 10, palette.codeBackground);
+            ctx.font = CODE_FONT;
+            ctx.fillStyle = palette.codeText;
+            item.lines.forEach((line, index) => {
+                ctx.fillText(line, item.x + CODE_PADDING, item.y + CODE_PADDING + index * CODE_LINE_HEIGHT + 3);
+            });
+            return;
+        }
+
+        if (item.image) {
+            ctx.drawImage(item.image, item.x, item.y, item.width, item.height);
+            return;
+        }
+
+        drawRoundedRect(ctx, item.x, item.y, item.width, item.height, 10, palette.codeBackground);
+        ctx.font = `italic 400 16px ${BODY_FONT}`;
+        ctx.fillStyle = palette.placeholder;
+        ctx.textAlign = 'center';
+        ctx.fillText(item.alt || 'Image', item.x + item.width / 2, item.y + item.height / 2 - 8);
+        ctx.textAlign = 'start';
+    });
 }
 
 function drawRoundedRect(
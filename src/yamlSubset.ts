@@ -0,0 +1,574 @@
+/**
+ * Parser for the YAML subset used by topic frontmatter: block mappings and sequences,
+ * flow collections (`[1, 2]`, `{ type: speed }`, including JSON), quoted and plain
+ * scalars, `|`/`>` block scalars with chomping indicators, and `#` comments.
+ *
+ * Scalars are returned untyped (as source text plus whether they were quoted) so the
+ * caller can coerce them against its own schema instead of guessing, e.g. `id: 007`
+ * stays the string "007" when the schema says `id` is a string.
+ */
+
+/** 1-based position in the source the parser was given. */
+export type YamlLocation = { line: number; column: number };
+
+export type YamlScalar = { kind: 'scalar'; value: string; quoted: boolean; location: YamlLocation };
+export type YamlSequence = { kind: 'sequence'; items: YamlNode[]; location: YamlLocation };
+export type YamlEntry = { key: string; keyLocation: YamlLocation; value: YamlNode };
+/** Entries keep source order and duplicates so callers can report them. */
+export type YamlMapping = { kind: 'mapping'; entries: YamlEntry[]; location: YamlLocation };
+export type YamlNode = YamlScalar | YamlSequence | YamlMapping;
+
+/**
+ * Thrown for malformed input. `line`/`column` point at the offending character.
+ */
+export class YamlSyntaxError extends Error {
+    readonly line: number;
+    readonly column: number;
+
+    constructor(message: string, location: YamlLocation) {
+        super(message);
+        this.name = 'YamlSyntaxError';
+        this.line = location.line;
+        this.column = location.column;
+    }
+}
+
+/**
+ * Parse a YAML-subset document.
+ *
+ * @param source Document text.
+ * @param firstLine Line number of the first source line, so locations match the enclosing file.
+ * @returns Root node; an empty document yields an empty mapping.
+ * @throws {YamlSyntaxError} on malformed input.
+ */
+export function parseYaml(source: string, firstLine = 1): YamlNode {
+    return new BlockParser(source.split(/\r?\n/), firstLine).parseDocument();
+}
+
+/**
+ * Convert a node to plain JavaScript using YAML core-schema guessing for plain scalars
+ * (null, booleans, numbers). Use for values without a schema.
+ */
+export function toPlainValue(node: YamlNode): unknown {
+    if (node.kind === 'sequence') return node.items.map(toPlainValue);
+    if (node.kind === 'mapping') {
+        const result: Record<string, unknown> = {};
+        node.entries.forEach(({ key, value }) => { result[key] = toPlainValue(value); });
+        return result;
+    }
+    if (node.quoted) return node.value;
+    if (node.value === '' || node.value === '~' || node.value === 'null') return null;
+    if (node.value === 'true' || node.value === 'false') return node.value === 'true';
+    if (isYamlNumber(node.value)) return Number(node.value);
+    return node.value;
+}
+
+/** True when a plain scalar spells a decimal number. */
+export function isYamlNumber(value: string): boolean {
+    return /^[-+]?(\d+(\.\d*)?|\.\d+)([eE][-+]?\d+)?$/.test(value);
+}
+
+const BLOCK_SCALAR_HEADER = /^([|>])([+-]?)([1-9]?)([+-]?)\s*(#.*)?$/;
+
+class BlockParser {
+    private pos = 0;
+
+    constructor(private readonly lines: string[], private readonly firstLine: number) {}
+
+    parseDocument(): YamlNode {
+        const start = this.skipBlank();
+        if (start === -1) {
+            return { kind: 'mapping', entries: [], location: this.loc(0, 0) };
+        }
+
+        const node = this.parseBlock(this.indentOf(start));
+        const rest = this.skipBlank();
+        if (rest !== -1) {
+            throw new YamlSyntaxError('Unexpected indentation', this.loc(rest, this.indentOf(rest)));
+        }
+        return node;
+    }
+
+    private loc(index: number, offset: number): YamlLocation {
+        return { line: this.firstLine + index, column: offset + 1 };
+    }
+
+    /** Index of the next line with content (not blank, not a comment), or -1. */
+    private skipBlank(): number {
+        for (let i = this.pos; i < this.lines.length; i++) {
+            const trimmed = this.lines[i].trim();
+            if (trimmed.length > 0 && !trimmed.startsWith('#')) return i;
+        }
+        return -1;
+    }
+
+    private indentOf(index: number): number {
+        const line = this.lines[index];
+        const indent = line.length - line.trimStart().length;
+        const tab = line.slice(0, indent).indexOf('\t');
+        if (tab !== -1) {
+            throw new YamlSyntaxError('Tabs are not allowed for indentation', this.loc(index, tab));
+        }
+        return indent;
+    }
+
+    private parseBlock(indent: number): YamlNode {
+        const index = this.skipBlank();
+        return isSequenceItem(this.lines[index].slice(indent)) ? this.parseSequence(indent) : this.parseMapping(indent);
+    }
+
+    private parseMapping(indent: number): YamlMapping {
+        const entries: YamlEntry[] = [];
+        const start = this.skipBlank();
+        const location = this.loc(start, indent);
+
+        for (let index = this.skipBlank(); index !== -1; index = this.skipBlank()) {
+            const lineIndent = this.indentOf(index);
+            if (lineIndent < indent) break;
+            if (lineIndent > indent) {
+                throw new YamlSyntaxError('Unexpected indentation', this.loc(index, lineIndent));
+            }
+
+            const text = this.lines[index].slice(indent);
+            if (isSequenceItem(text)) {
+                throw new YamlSyntaxError('Unexpected sequence item inside a mapping', this.loc(index, indent));
+            }
+
+            const { key, rest, restOffset } = this.splitKey(text, index, indent, false);
+            this.pos = index + 1;
+            const value = this.parseValue(rest, index, indent + restOffset, indent, true);
+            entries.push({ key, keyLocation: this.loc(index, indent), value });
+        }
+
+        return { kind: 'mapping', entries, location };
+    }
+
+    private parseSequence(indent: number): YamlSequence {
+        const items: YamlNode[] = [];
+        const location = this.loc(this.skipBlank(), indent);
+
+        for (let index = this.skipBlank(); index !== -1; index = this.skipBlank()) {
+            const lineIndent = this.indentOf(index);
+            if (lineIndent < indent) break;
+            if (lineIndent > indent) {
+                throw new YamlSyntaxError('Unexpected indentation', this.loc(index, lineIndent));
+            }
+
+            const text = this.lines[index].slice(indent);
+            if (!isSequenceItem(text)) break;
+
+            const afterDash = text.slice(1);
+            const content = afterDash.trimStart();
+            const contentOffset = indent + 1 + (afterDash.length - content.length);
+
+            // `- key: value` and `- - item` open a nested collection at the item's column:
+            // blank out the dash so the nested block parses as if it started on its own line.
+            if (content.length > 0 && !content.startsWith('#') && (isSequenceItem(content) || this.hasCompactKey(content))) {
+                this.lines[index] = ' '.repeat(contentOffset) + content;
+                this.pos = index;
+                items.push(this.parseBlock(contentOffset));
+                continue;
+            }
+
+            this.pos = index + 1;
+            items.push(this.parseValue(content, index, contentOffset, indent, false));
+        }
+
+        return { kind: 'sequence', items, location };
+    }
+
+    /**
+     * Split `key: rest`. Block mapping lines also accept `key:value` without a space;
+     * sequence items use the strict YAML rule so values like URLs aren't mistaken for keys.
+     */
+    private splitKey(text: string, index: number, indent: number, strict: boolean) {
+        let key: string;
+        let afterKey: number;
+
+        if (text.startsWith('"') || text.startsWith('\'')) {
+            const quoted = readQuoted(text, 0, (message, offset) => new YamlSyntaxError(message, this.loc(index, indent + offset)));
+            key = quoted.value;
+            afterKey = quoted.end;
+            while (text[afterKey] === ' ') afterKey++;
+            if (text[afterKey] !== ':') {
+                throw new YamlSyntaxError('Expected ":" after mapping key', this.loc(index, indent + afterKey));
+            }
+        } else {
+            afterKey = strict ? findStrictColon(text) : text.indexOf(':');
+            key = afterKey === -1 ? '' : text.slice(0, afterKey).trim();
+            if (afterKey === -1 || !key) {
+                throw new YamlSyntaxError(`Expected "key: value", found "${text.trim()}"`, this.loc(index, indent));
+            }
+        }
+
+        const rawRest = text.slice(afterKey + 1);
+        const rest = rawRest.trimStart();
+        return { key, rest, restOffset: afterKey + 1 + (rawRest.length - rest.length) };
+    }
+
+    private hasCompactKey(text: string): boolean {
+        if (text.startsWith('"') || text.startsWith('\'')) {
+            try {
+                const quoted = readQuoted(text, 0, (message) => new YamlSyntaxError(message, { line: 0, column: 0 }));
+                return /^\s*:(\s|$)/.test(text.slice(quoted.end));
+            } catch {
+                return false;
+            }
+        }
+        return !text.startsWith('[') && !text.startsWith('{') && findStrictColon(text) !== -1;
+    }
+
+    /**
+     * Parse the value following a key or dash. `offset` is the value's column, `parentIndent`
+     * the indentation of the line that owns it.
+     */
+    private parseValue(rest: string, index: number, offset: number, parentIndent: number, inMapping: boolean): YamlNode {
+        const location = this.loc(index, offset);
+        const value = stripComment(rest);
+
+        if (value.length === 0) {
+            const next = this.skipBlank();
+            if (next !== -1) {
+                const nextIndent = this.indentOf(next);
+                const nextText = this.lines[next].slice(nextIndent);
+                // YAML lets a mapping's sequence value sit at the key's own indentation.
+                if (nextIndent > parentIndent || (inMapping && nextIndent === parentIndent && isSequenceItem(nextText))) {
+                    this.pos = next;
+                    return this.parseBlock(nextIndent);
+                }
+            }
+            return { kind: 'scalar', value: '', quoted: false, location };
+        }
+
+        const header = value.match(BLOCK_SCALAR_HEADER);
+        if (header) {
+            return this.parseBlockScalar(header, parentIndent, location);
+        }
+
+        if (value.startsWith('[') || value.startsWith('{')) {
+            return this.parseFlow(rest, index, offset);
+        }
+
+        if (value.startsWith('"') || value.startsWith('\'')) {
+            const quoted = readQuoted(rest, 0, (message, at) => new YamlSyntaxError(message, this.loc(index, offset + at)));
+            const trailing = stripComment(rest.slice(quoted.end));
+            if (trailing.length > 0) {
+                throw new YamlSyntaxError('Unexpected content after quoted string', this.loc(index, offset + quoted.end + rest.slice(quoted.end).indexOf(trailing)));
+            }
+            return { kind: 'scalar', value: quoted.value, quoted: true, location };
+        }
+
+        const next = this.skipBlank();
+        if (next !== -1 && this.indentOf(next) > parentIndent && !inMapping) {
+            throw new YamlSyntaxError('Unexpected indentation', this.loc(next, this.indentOf(next)));
+        }
+        return { kind: 'scalar', value, quoted: false, location };
+    }
+
+    private parseBlockScalar(header: RegExpMatchArray, parentIndent: number, location: YamlLocation): YamlScalar {
+        const [, style, chompA, explicitIndent, chompB] = header;
+        const chomp = chompA || chompB;
+        const collected: string[] = [];
+        let contentIndent = explicitIndent ? parentIndent + Number(explicitIndent) : -1;
+
+        while (this.pos < this.lines.length) {
+            const line = this.lines[this.pos];
+            if (line.trim().length === 0) {
+                collected.push('');
+                this.pos++;
+                continue;
+            }
+
+            const indent = line.length - line.trimStart().length;
+            if (contentIndent === -1) {
+                if (indent <= parentIndent) break;
+                contentIndent = indent;
+            }
+            if (indent < contentIndent) break;
+
+            collected.push(line.slice(contentIndent));
+            this.pos++;
+        }
+
+        // Trailing blank lines only survive `+` (keep) chomping.
+        let trailingBlank = 0;
+        while (collected.length > 0 && collected[collected.length - 1] === '') {
+            collected.pop();
+            trailingBlank++;
+        }
+
+        let text = style === '|' ? collected.join('\n') : foldLines(collected);
+        if (collected.length > 0) {
+            if (chomp === '+') text += '\n'.repeat(trailingBlank + 1);
+            else if (chomp !== '-') text += '\n';
+        }
+
+        return { kind: 'scalar', value: text, quoted: true, location };
+    }
+
+    /** Parse a flow collection, pulling in following lines until its brackets close. */
+    private parseFlow(rest: string, index: number, offset: number): YamlNode {
+        const segments = [{ start: 0, line: index, column: offset }];
+        let text = rest;
+        let lastIndex = index;
+
+        while (!isFlowBalanced(text)) {
+            lastIndex++;
+            if (lastIndex >= this.lines.length) {
+                throw new YamlSyntaxError('Unterminated flow collection', this.loc(index, offset));
+            }
+            text += '\n';
+            segments.push({ start: text.length, line: lastIndex, column: 0 });
+            text += this.lines[lastIndex];
+        }
+
+        const locate = (at: number): YamlLocation => {
+            let segment = segments[0];
+            for (const candidate of segments) {
+                if (candidate.start <= at) segment = candidate;
+            }
+            return this.loc(segment.line, segment.column + (at - segment.start));
+        };
+
+        const parser = new FlowParser(text, locate);
+        const node = parser.parseNode();
+        parser.expectEnd();
+        this.pos = lastIndex + 1;
+        return node;
+    }
+}
+
+/**
+ * Recursive-descent parser for flow collections. JSON is a subset of what it accepts.
+ */
+class FlowParser {
+    private pos = 0;
+
+    constructor(private readonly text: string, private readonly locate: (offset: number) => YamlLocation) {}
+
+    parseNode(key = false): YamlNode {
+        this.skipSpace();
+        const location = this.locate(this.pos);
+        const char = this.text[this.pos];
+
+        if (char === '[') return this.parseSequence();
+        if (char === '{') return this.parseMapping();
+        if (char === '"' || char === '\'') {
+            const quoted = readQuoted(this.text, this.pos, (message, at) => new YamlSyntaxError(message, this.locate(at)));
+            this.pos = quoted.end;
+            return { kind: 'scalar', value: quoted.value, quoted: true, location };
+        }
+
+        const start = this.pos;
+        while (this.pos < this.text.length) {
+            const current = this.text[this.pos];
+            if (current === ',' || current === ']' || current === '}' || current === '\n') break;
+            if (current === ':' && (key || /[\s,\]}]/.test(this.text[this.pos + 1] ?? ' '))) break;
+            if (current === '#' && /\s/.test(this.text[this.pos - 1] ?? ' ')) break;
+            this.pos++;
+        }
+        const value = this.text.slice(start, this.pos).trim();
+        if (!value && !key && char !== ',' && char !== ']' && char !== '}') {
+            throw new YamlSyntaxError(`Unexpected character "${char ?? 'end of input'}"`, location);
+        }
+        return { kind: 'scalar', value, quoted: false, location };
+    }
+
+    expectEnd() {
+        this.skipSpace();
+        if (this.pos < this.text.length) {
+            throw new YamlSyntaxError('Unexpected content after flow collection', this.locate(this.pos));
+        }
+    }
+
+    private parseSequence(): YamlSequence {
+        const location = this.locate(this.pos);
+        const items: YamlNode[] = [];
+        this.pos++;
+
+        for (;;) {
+            this.skipSpace();
+            if (this.pos >= this.text.length) throw new YamlSyntaxError('Unterminated flow sequence', location);
+            if (this.text[this.pos] === ']') break;
+
+            items.push(this.parseNode());
+            this.skipSpace();
+            const separator = this.text[this.pos];
+            if (separator === ',') {
+                this.pos++;
+            } else if (separator !== ']') {
+                throw new YamlSyntaxError('Expected "," or "]" in flow sequence', this.locate(this.pos));
+            }
+        }
+
+        this.pos++;
+        return { kind: 'sequence', items, location };
+    }
+
+    private parseMapping(): YamlMapping {
+        const location = this.locate(this.pos);
+        const entries: YamlEntry[] = [];
+        this.pos++;
+
+        for (;;) {
+            this.skipSpace();
+            if (this.pos >= this.text.length) throw new YamlSyntaxError('Unterminated flow mapping', location);
+            if (this.text[this.pos] === '}') break;
+
+            const keyNode = this.parseNode(true);
+            if (keyNode.kind !== 'scalar' || keyNode.value === '') {
+                throw new YamlSyntaxError('Expected a mapping key', keyNode.location);
+            }
+            this.skipSpace();
+            if (this.text[this.pos] !== ':') {
+                throw new YamlSyntaxError('Expected ":" after mapping key', this.locate(this.pos));
+            }
+            this.pos++;
+
+            this.skipSpace();
+            const next = this.text[this.pos];
+            const value: YamlNode = next === ',' || next === '}'
+                ? { kind: 'scalar', value: '', quoted: false, location: this.locate(this.pos) }
+                : this.parseNode();
+            entries.push({ key: keyNode.value, keyLocation: keyNode.location, value });
+
+            this.skipSpace();
+            const separator = this.text[this.pos];
+            if (separator === ',') {
+                this.pos++;
+            } else if (separator !== '}') {
+                throw new YamlSyntaxError('Expected "," or "}" in flow mapping', this.locate(this.pos));
+            }
+        }
+
+        this.pos++;
+        return { kind: 'mapping', entries, location };
+    }
+
+    private skipSpace() {
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos];
+            if (char === '#' && (this.pos === 0 || /\s/.test(this.text[this.pos - 1]))) {
+                while (this.pos < this.text.length && this.text[this.pos] !== '\n') this.pos++;
+            } else if (/\s/.test(char)) {
+                this.pos++;
+            } else {
+                break;
+            }
+        }
+    }
+}
+
+function isSequenceItem(text: string): boolean {
+    return text === '-' || text.startsWith('- ');
+}
+
+/** Index of the first `:` followed by whitespace or end of text, or -1. */
+function findStrictColon(text: string): number {
+    const match = text.match(/:(\s|$)/);
+    return match?.index ?? -1;
+}
+
+/** Remove a trailing ` # comment` from an unquoted value, respecting quotes and brackets. */
+function stripComment(text: string): string {
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === '\\' && quote === '"') i++;
+            else if (char === quote) quote = null;
+        } else if (char === '"' || char === '\'') {
+            if (i === 0 || /[\s[{,:]/.test(text[i - 1])) quote = char;
+        } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+            return text.slice(0, i).trim();
+        }
+    }
+    return text.trim();
+}
+
+function isFlowBalanced(text: string): boolean {
+    let depth = 0;
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quote) {
+            if (char === '\\' && quote === '"') i++;
+            else if (char === quote) {
+                if (quote === '\'' && text[i + 1] === '\'') i++;
+                else quote = null;
+            }
+        } else if (char === '"' || char === '\'') {
+            quote = char;
+        } else if (char === '[' || char === '{') {
+            depth++;
+        } else if (char === ']' || char === '}') {
+            depth--;
+        } else if (char === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+            while (i < text.length && text[i] !== '\n') i++;
+        }
+        if (depth === 0 && i > 0) return true;
+    }
+    return depth <= 0;
+}
+
+const ESCAPES: Record<string, string> = { n: '\n', t: '\t', r: '\r', '"': '"', '\\': '\\', '/': '/', '0': '\0', b: '\b', f: '\f' };
+
+/**
+ * Read a single- or double-quoted scalar starting at `start`.
+ * @returns Unescaped value and the index just past the closing quote.
+ */
+function readQuoted(
+    text: string,
+    start: number,
+    error: (message: string, offset: number) => YamlSyntaxError,
+): { value: string; end: number } {
+    const quote = text[start];
+    let value = '';
+
+    for (let i = start + 1; i < text.length; i++) {
+        const char = text[i];
+        if (quote === '\'' && char === '\'') {
+            if (text[i + 1] === '\'') {
+                value += '\'';
+                i++;
+                continue;
+            }
+            return { value, end: i + 1 };
+        }
+        if (quote === '"' && char === '"') {
+            return { value, end: i + 1 };
+        }
+        if (quote === '"' && char === '\\') {
+            const escape = text[i + 1];
+            if (escape === 'u') {
+                const hex = text.slice(i + 2, i + 6);
+                if (!/^[0-9a-fA-F]{4}$/.test(hex)) throw error('Invalid unicode escape', i);
+                value += String.fromCharCode(parseInt(hex, 16));
+                i += 5;
+                continue;
+            }
+            if (!(escape in ESCAPES)) throw error(`Invalid escape "\\${escape ?? ''}"`, i);
+            value += ESCAPES[escape];
+            i++;
+            continue;
+        }
+        value += char;
+    }
+
+    throw error('Unterminated quoted string', start);
+}
+
+/** Fold `>` block lines: single newlines become spaces, blank lines become newlines. */
+function foldLines(lines: string[]): string {
+    let result = '';
+    lines.forEach((line, i) => {
+        if (i === 0) {
+            result = line;
+        } else if (line === '') {
+            result += '\n';
+        } else {
+            result += result.endsWith('\n') || result === '' ? line : ` ${line}`;
+        }
+    });
+    return result;
+}
@@ -1,10 +1,19 @@
 // vite.config.ts
 import { defineConfig } from 'vite';
+import { fileURLToPath } from 'node:url';
 
 const repo = process.env.GITHUB_REPOSITORY?.split('/')[1] ?? '';
 const inCI = !!process.env.GITHUB_ACTIONS;
 
 export default defineConfig({
     base: inCI && repo ? `/${repo}/` : '/',
-    build: { outDir: 'dist' }
+    build: {
+        outDir: 'dist',
+        rollupOptions: {
+            input: {
+                main: fileURLToPath(new URL('./index.html', import.meta.url)),
+                presenter: fileURLToPath(new URL('./presenter.html', import.meta.url)),
+            },
+        },
+    },
 });